@@ -1,35 +1,71 @@
 #!/usr/bin/env bun
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate, type ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import {
   TypeScriptWorkspaceManager,
   checkTypeScriptLSPAvailable,
-  findSymbol,
-  gotoDefinition,
-  gotoSourceDefinition,
-  gotoTypeDefinition,
-  findReferences,
-  findImplementations,
-  getDiagnostics,
-  getSignatureHelp,
-  checkTypes,
-  organizeImports,
-  applyCodeFixes,
-  listSymbols,
-  getCallHierarchy,
-  getTypeHierarchy,
-  analyzeImports,
-  getProjectInfo,
+  findSymbolResult,
+  gotoDefinitionResult,
+  gotoSourceDefinitionResult,
+  gotoTypeDefinitionResult,
+  findReferencesResult,
+  findImplementationsResult,
+  getDocumentHighlightsResult,
+  getDiagnosticsResult,
+  getHoverResult,
+  getSignatureHelpResult,
+  getCompletionsResult,
+  getInlayHintsResult,
+  checkTypesResult,
+  organizeImportsResult,
+  applyCodeFixesResult,
+  listRefactoringsResult,
+  applyRefactoringResult,
+  getRefactoringCatalog,
+  renameSymbolResult,
+  moveFileResult,
+  formatFileResult,
+  listSymbolsResult,
+  getCallHierarchyResult,
+  getTypeHierarchyResult,
+  analyzeImportsResult,
+  getProjectInfoResult,
+  formatSymbolsResult,
+  formatLocationsResult,
+  formatReferencesResult,
+  formatHighlightsResult,
+  formatDiagnosticsResult,
+  formatHoverResult,
+  formatSignatureHelpResult,
+  formatCompletionsResult,
+  formatInlayHintsResult,
+  formatTypeCheckResult,
+  formatOrganizeImportsResult,
+  formatCodeFixesResult,
+  formatRefactoringsResult,
+  formatRefactoringResult,
+  formatRenameResult,
+  formatMoveFileResult,
+  formatFormatResult,
+  formatCallHierarchyResult,
+  formatTypeHierarchyResult,
+  formatImportAnalysisResult,
+  formatProjectInfoResult,
+  resolveSymbolLocator,
+  withCancellation,
+  withRequestTimeout,
   TypeScriptToolError,
+  SymbolEntry,
 } from "./lib/typescript-operations.js";
 
 // Global workspace manager
 const workspaceManager = new TypeScriptWorkspaceManager();
 
 // Create MCP server
-const server = new McpServer({
+export const server = new McpServer({
   name: "typescript-lsp",
   version: "1.0.0"
 });
@@ -55,154 +91,555 @@ function handleError(error: unknown) {
   };
 }
 
+// Add TypeScript-specific workspace isolation to prevent LSP conflicts with other language servers
+function isolatedWorkspaceRoot(workspaceRoot: string) {
+  return `${workspaceRoot}#typescript-lsp`;
+}
+
 // Helper to get workspace client with TypeScript-specific workspace isolation
 async function getWorkspaceClient(workspaceRoot: string = process.cwd()) {
-  // Add TypeScript-specific workspace isolation to prevent LSP conflicts with other language servers
-  const isolatedWorkspaceRoot = `${workspaceRoot}#typescript-lsp`;
-  return await workspaceManager.getOrCreateWorkspace(isolatedWorkspaceRoot);
+  return await workspaceManager.getOrCreateWorkspace(isolatedWorkspaceRoot(workspaceRoot));
+}
+
+// Errors while the server is still loading are often down to that, so say what it is doing
+function withReadiness(result: CallToolResult, workspaceRoot: string = process.cwd()): CallToolResult {
+  const readiness = workspaceManager.getWorkspace(isolatedWorkspaceRoot(workspaceRoot))?.getReadiness();
+  if (!readiness || readiness === 'ready') {
+    return result;
+  }
+  return {
+    ...result,
+    content: [...result.content, { type: "text", text: `TypeScript Language Server status: ${readiness}` }]
+  };
+}
+
+// Run an operation against unsaved content for the file when the caller provides it
+async function withContent<T>(
+  client: Awaited<ReturnType<typeof getWorkspaceClient>>,
+  file: string | undefined,
+  content: string | undefined,
+  operation: () => Promise<T>
+): Promise<T> {
+  if (content === undefined) {
+    return await operation();
+  }
+  if (!file) {
+    throw new Error("A content override requires a file");
+  }
+  return await client.withContentOverride(file, content, operation);
+}
+
+async function withPosition<T>(
+  client: Awaited<ReturnType<typeof getWorkspaceClient>>,
+  position: { file?: string; line?: number; character?: number; symbol?: string },
+  content: string | undefined,
+  operation: (file: string, line: number, character: number) => Promise<T>
+): Promise<T> {
+  return await withContent(client, position.file, content, async () => {
+    if (position.symbol) {
+      const resolved = await resolveSymbolLocator(client, position.symbol, position.file);
+      return await operation(resolved.file, resolved.line, resolved.character);
+    }
+    if (!position.file || position.line === undefined || position.character === undefined) {
+      throw new Error("Either file, line and character or a symbol locator is required");
+    }
+    return await operation(position.file, position.line, position.character);
+  });
+}
+
+// Every tool returns its result both as structuredContent and as content text, rendered
+// from the same object either as prose or, with format "json", as the object itself
+const outputFormat = z.enum(["text", "json"]).optional().describe("Render the text content as prose (default) or as the JSON of the structured result");
+
+// Paging and path filters for the tools that return lists
+const pageParams = {
+  limit: z.number().optional().describe("Maximum number of results to return (defaults to 100)"),
+  offset: z.number().optional().describe("Number of results to skip, to fetch the page after a truncated result")
+};
+
+const pathFilterParams = {
+  include: z.array(z.string()).optional().describe("Only return results in files matching these globs, relative to the workspace root (e.g. src/services or **/*.tsx)"),
+  exclude: z.array(z.string()).optional().describe("Leave out results in files matching these globs (e.g. **/*.test.ts)")
+};
+
+// Per-call override of the configured request timeouts, added to every tool
+const timeoutParams = {
+  timeoutMs: z.number().int().positive().optional().describe("Timeout in milliseconds for each language server request this call makes, instead of the configured budgets")
+};
+
+function toolResult<T extends object>(result: T, render: (result: T) => string, format: "text" | "json" = "text") {
+  return {
+    content: [{
+      type: "text" as const,
+      text: format === "json" ? JSON.stringify(result, null, 2) : render(result)
+    }],
+    structuredContent: result as { [key: string]: unknown }
+  };
+}
+
+// Output schemas; positions are 0-based as in LSP, locations carry a file:// uri
+const positionSchema = z.object({ line: z.number(), character: z.number() });
+const rangeSchema = z.object({ start: positionSchema, end: positionSchema });
+const locationSchema = z.object({ uri: z.string(), range: rangeSchema });
+const sourceLineSchema = z.object({ line: z.number().describe("Line number (1-based)"), text: z.string() });
+const countsSchema = z.record(z.number());
+const pageSchema = z.object({
+  offset: z.number(),
+  limit: z.number(),
+  total: z.number().describe("Results left after the path filters, across all pages"),
+  returned: z.number(),
+  nextOffset: z.number().optional().describe("Offset of the next page, when the result was truncated")
+});
+
+const symbolEntrySchema: z.ZodType<SymbolEntry> = z.lazy(() => z.object({
+  name: z.string(),
+  kind: z.string(),
+  location: locationSchema,
+  containerName: z.string().optional(),
+  detail: z.string().optional(),
+  children: z.array(symbolEntrySchema).optional()
+}));
+
+const hierarchyNodeSchema = z.object({ name: z.string(), kind: z.string(), location: locationSchema });
+
+const codeActionSchema = z.object({
+  title: z.string(),
+  kind: z.string(),
+  isPreferred: z.boolean().optional(),
+  disabledReason: z.string().optional()
+});
+
+const diagnosticSchema = z.object({
+  file: z.string().optional(),
+  range: rangeSchema,
+  severity: z.string(),
+  code: z.string().optional(),
+  source: z.string().optional(),
+  message: z.string(),
+  relatedInformation: z.array(z.object({ location: locationSchema, message: z.string() })).optional()
+});
+
+const symbolsOutput = {
+  file: z.string().optional(),
+  query: z.string().optional(),
+  kind: z.string().optional(),
+  symbols: z.array(symbolEntrySchema),
+  page: pageSchema
+};
+
+const locationsOutput = {
+  target: z.enum(["definition", "source definition", "type definition", "implementation"]),
+  locations: z.array(locationSchema),
+  page: pageSchema
+};
+
+const referencesOutput = {
+  symbolName: z.string().optional(),
+  counts: countsSchema,
+  files: z.array(z.object({
+    file: z.string(),
+    count: z.number(),
+    references: z.array(z.object({
+      location: locationSchema,
+      kind: z.enum(["declaration", "import", "type", "write", "read"]),
+      enclosingSymbol: z.string().optional(),
+      context: z.array(sourceLineSchema)
+    }))
+  })),
+  page: pageSchema
+};
+
+const highlightsOutput = {
+  file: z.string(),
+  symbolName: z.string().optional(),
+  counts: countsSchema,
+  highlights: z.array(z.object({ range: rangeSchema, kind: z.enum(["text", "read", "write"]), text: z.string() })),
+  page: pageSchema
+};
+
+const diagnosticsOutput = {
+  file: z.string().optional(),
+  workspaceRoot: z.string().optional(),
+  severity: z.string().optional(),
+  filesChecked: z.number(),
+  totals: countsSchema,
+  byCode: z.array(z.object({ code: z.string(), count: z.number() })).optional(),
+  byFile: z.array(z.object({ file: z.string(), counts: countsSchema })).optional(),
+  diagnostics: z.array(diagnosticSchema),
+  page: pageSchema
+};
+
+const hoverOutput = {
+  signature: z.string().optional(),
+  kind: z.string().optional(),
+  range: rangeSchema.optional(),
+  documentation: z.array(z.string()),
+  tags: z.array(z.object({ name: z.string(), target: z.string().optional(), text: z.string() }))
+};
+
+const signatureHelpOutput = {
+  signatures: z.array(z.object({
+    label: z.string(),
+    documentation: z.string().optional(),
+    parameters: z.array(z.object({ label: z.string(), documentation: z.string().optional() }))
+  }))
+};
+
+const completionsOutput = {
+  prefix: z.string(),
+  available: z.number(),
+  completions: z.array(z.object({
+    label: z.string(),
+    kind: z.string(),
+    autoImportFrom: z.string().optional(),
+    deprecated: z.boolean(),
+    detail: z.string().optional(),
+    documentation: z.string().optional()
+  })),
+  page: pageSchema
+};
+
+const inlayHintsOutput = {
+  file: z.string(),
+  startLine: z.number(),
+  endLine: z.number(),
+  hints: z.array(z.object({ position: positionSchema, kind: z.enum(["type", "parameter", "value"]), label: z.string() })),
+  inlined: z.array(sourceLineSchema).optional()
+};
+
+const typeCheckOutput = {
+  passed: z.boolean(),
+  output: z.string()
+};
+
+const organizeImportsOutput = {
+  file: z.string(),
+  dryRun: z.boolean(),
+  files: z.array(z.string()),
+  diff: z.string()
+};
+
+const codeFixesOutput = {
+  fixKind: z.string().optional(),
+  fixes: z.array(codeActionSchema),
+  applied: z.object({
+    title: z.string(),
+    kind: z.string(),
+    dryRun: z.boolean(),
+    command: z.string().optional(),
+    files: z.array(z.string()),
+    diff: z.string()
+  }).optional()
+};
+
+const refactoringsOutput = {
+  range: rangeSchema,
+  refactorings: z.array(codeActionSchema)
+};
+
+const refactoringOutput = {
+  title: z.string(),
+  kind: z.string(),
+  dryRun: z.boolean(),
+  changed: z.boolean(),
+  files: z.array(z.string()),
+  diff: z.string(),
+  renameLocation: locationSchema.optional()
+};
+
+const renameOutput = {
+  oldName: z.string().optional(),
+  newName: z.string(),
+  dryRun: z.boolean(),
+  totalEdits: z.number(),
+  files: z.array(z.object({
+    file: z.string(),
+    edits: z.array(z.object({ range: rangeSchema, oldText: z.string(), newText: z.string() }))
+  })),
+  appliedFiles: z.array(z.string()).optional()
+};
+
+const moveFileOutput = {
+  source: z.string(),
+  destination: z.string(),
+  directory: z.boolean(),
+  dryRun: z.boolean(),
+  importUpdates: z.number(),
+  updatedFiles: z.array(z.string()),
+  diff: z.string()
+};
+
+const formatOutput = {
+  file: z.string(),
+  startLine: z.number().optional(),
+  endLine: z.number().optional(),
+  dryRun: z.boolean(),
+  diff: z.string()
+};
+
+const callHierarchyOutput = {
+  item: hierarchyNodeSchema.nullable(),
+  incoming: z.array(hierarchyNodeSchema).optional(),
+  outgoing: z.array(hierarchyNodeSchema).optional()
+};
+
+const typeHierarchyOutput = {
+  item: hierarchyNodeSchema.nullable(),
+  supertypes: z.array(hierarchyNodeSchema).optional(),
+  subtypes: z.array(hierarchyNodeSchema).optional(),
+  unavailable: z.array(z.enum(["supertypes", "subtypes"]))
+};
+
+const importAnalysisOutput = {
+  file: z.string().optional(),
+  unused: z.array(z.string()).optional(),
+  missing: z.array(z.string()).optional(),
+  organize: z.array(z.string())
+};
+
+const projectInfoOutput = {
+  workspaceRoot: z.string(),
+  languageServer: z.string(),
+  projectType: z.string()
+};
+
+// Tools registered through registerTool can also run as part of a typescript-batch call.
+// They take a timeoutMs override, and their language server requests are cancelled
+// when the MCP client cancels the call.
+interface BatchableTool {
+  category: ToolCategory;
+  inputSchema: z.AnyZodObject;
+  handler: ToolCallback<z.ZodRawShape>;
+}
+
+const batchableTools = new Map<string, BatchableTool>();
+
+// Every registered tool, in registration order, for the tool-info listing
+const toolCategories = ["Symbol Navigation", "Code Analysis", "Code Transformation", "Workspace Understanding", "Utilities"] as const;
+type ToolCategory = typeof toolCategories[number];
+const toolCatalog: { name: string; category: ToolCategory; description: string }[] = [];
+
+function registerTool<Input extends z.ZodRawShape, Output extends z.ZodRawShape>(
+  name: string,
+  { category, ...config }: { category: ToolCategory; description: string; inputSchema: Input; outputSchema: Output },
+  handler: ToolCallback<Input>
+) {
+  toolCatalog.push({ name, category, description: config.description });
+  const inputSchema = { ...config.inputSchema, ...timeoutParams };
+  const run = handler as unknown as ToolCallback<z.ZodRawShape>;
+  const wrapped: ToolCallback<z.ZodRawShape> = ({ timeoutMs, ...args }, extra) =>
+    withCancellation(extra.signal, () =>
+      withRequestTimeout(timeoutMs as number | undefined, async () => {
+        const result = await run(args, extra);
+        return result.isError ? withReadiness(result, args.workspaceRoot as string | undefined) : result;
+      })
+    );
+  server.registerTool(name, { ...config, inputSchema }, wrapped as unknown as ToolCallback<typeof inputSchema>);
+  batchableTools.set(name, {
+    category,
+    inputSchema: z.object(inputSchema),
+    handler: wrapped
+  });
 }
 
 // Symbol Navigation Tools
 
-server.tool(
+registerTool(
   "find-typescript-symbol",
   {
-    query: z.string().describe("Symbol name to search for"),
-    kind: z.enum(["class", "interface", "function", "variable", "module", "type", "enum", "all"]).optional().describe("Type of symbol to find"),
-    workspace: z.boolean().optional().describe("Search entire workspace vs current file only"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Symbol Navigation",
+    description: "Search for symbols by name across the workspace",
+    inputSchema: {
+      query: z.string().describe("Symbol name to search for"),
+      kind: z.enum(["class", "interface", "function", "variable", "module", "type", "enum", "all"]).optional().describe("Type of symbol to find"),
+      workspace: z.boolean().optional().describe("Search entire workspace vs current file only"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      ...pageParams,
+      ...pathFilterParams,
+      format: outputFormat
+    },
+    outputSchema: symbolsOutput
   },
-  async ({ query, kind, workspace = true, workspaceRoot = process.cwd() }) => {
+  async ({ query, kind, workspace = true, workspaceRoot = process.cwd(), format, ...page }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await findSymbol(client, query, kind, workspace);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await findSymbolResult(client, query, kind, workspace, page);
+      return toolResult(result, formatSymbolsResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
-server.tool(
+registerTool(
   "goto-typescript-definition",
   {
-    file: z.string().describe("File path containing the symbol"),
-    line: z.number().describe("Line number (1-based)"),
-    character: z.number().describe("Character position (0-based)"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Symbol Navigation",
+    description: "Find where a symbol is defined",
+    inputSchema: {
+      file: z.string().optional().describe("File path containing the symbol (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      ...pageParams,
+      ...pathFilterParams,
+      format: outputFormat
+    },
+    outputSchema: locationsOutput
   },
-  async ({ file, line, character, workspaceRoot = process.cwd() }) => {
+  async ({ file, line, character, symbol, content, workspaceRoot = process.cwd(), format, ...page }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await gotoDefinition(client, file, line, character);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => gotoDefinitionResult(client, file, line, character, page));
+      return toolResult(result, formatLocationsResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
-server.tool(
+registerTool(
   "goto-typescript-source-definition",
   {
-    file: z.string().describe("File path containing the symbol"),
-    line: z.number().describe("Line number (1-based)"),
-    character: z.number().describe("Character position (0-based)"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Symbol Navigation",
+    description: "Find the source definition (not just declaration)",
+    inputSchema: {
+      file: z.string().optional().describe("File path containing the symbol (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      ...pageParams,
+      ...pathFilterParams,
+      format: outputFormat
+    },
+    outputSchema: locationsOutput
   },
-  async ({ file, line, character, workspaceRoot = process.cwd() }) => {
+  async ({ file, line, character, symbol, content, workspaceRoot = process.cwd(), format, ...page }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await gotoSourceDefinition(client, file, line, character);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => gotoSourceDefinitionResult(client, file, line, character, page));
+      return toolResult(result, formatLocationsResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
-server.tool(
+registerTool(
   "goto-typescript-type-definition",
   {
-    file: z.string().describe("File path containing the symbol"),
-    line: z.number().describe("Line number (1-based)"),
-    character: z.number().describe("Character position (0-based)"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Symbol Navigation",
+    description: "Find where the type of a symbol is defined",
+    inputSchema: {
+      file: z.string().optional().describe("File path containing the symbol (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      ...pageParams,
+      ...pathFilterParams,
+      format: outputFormat
+    },
+    outputSchema: locationsOutput
   },
-  async ({ file, line, character, workspaceRoot = process.cwd() }) => {
+  async ({ file, line, character, symbol, content, workspaceRoot = process.cwd(), format, ...page }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await gotoTypeDefinition(client, file, line, character);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => gotoTypeDefinitionResult(client, file, line, character, page));
+      return toolResult(result, formatLocationsResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
-server.tool(
+registerTool(
   "find-typescript-references",
   {
-    file: z.string().describe("File path containing the symbol"),
-    line: z.number().describe("Line number (1-based)"),
-    character: z.number().describe("Character position (0-based)"),
-    includeDeclaration: z.boolean().optional().describe("Include the declaration in results"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Symbol Navigation",
+    description: "Find all references to a symbol, grouped by file with source lines, enclosing symbols and usage kinds",
+    inputSchema: {
+      file: z.string().optional().describe("File path containing the symbol (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      includeDeclaration: z.boolean().optional().describe("Include the declaration in results"),
+      contextLines: z.number().optional().describe("Lines of source to show before and after each reference (defaults to 0)"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      ...pageParams,
+      ...pathFilterParams,
+      format: outputFormat
+    },
+    outputSchema: referencesOutput
   },
-  async ({ file, line, character, includeDeclaration = false, workspaceRoot = process.cwd() }) => {
+  async ({ file, line, character, symbol, includeDeclaration = false, contextLines = 0, content, workspaceRoot = process.cwd(), format, ...page }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await findReferences(client, file, line, character, includeDeclaration);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => findReferencesResult(client, file, line, character, includeDeclaration, contextLines, page));
+      return toolResult(result, formatReferencesResult, format);
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+);
+
+registerTool(
+  "get-typescript-highlights",
+  {
+    category: "Symbol Navigation",
+    description: "List every occurrence of a symbol in its file, tagged as read, write or text",
+    inputSchema: {
+      file: z.string().optional().describe("File path containing the symbol (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      ...pageParams,
+      format: outputFormat
+    },
+    outputSchema: highlightsOutput
+  },
+  async ({ file, line, character, symbol, content, workspaceRoot = process.cwd(), format, ...page }) => {
+    try {
+      const client = await getWorkspaceClient(workspaceRoot);
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => getDocumentHighlightsResult(client, file, line, character, page));
+      return toolResult(result, formatHighlightsResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
-server.tool(
+registerTool(
   "find-typescript-implementations",
   {
-    file: z.string().describe("File path containing the symbol"),
-    line: z.number().describe("Line number (1-based)"),
-    character: z.number().describe("Character position (0-based)"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Symbol Navigation",
+    description: "Find all implementations of an interface or abstract method",
+    inputSchema: {
+      file: z.string().optional().describe("File path containing the symbol (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      ...pageParams,
+      ...pathFilterParams,
+      format: outputFormat
+    },
+    outputSchema: locationsOutput
   },
-  async ({ file, line, character, workspaceRoot = process.cwd() }) => {
+  async ({ file, line, character, symbol, content, workspaceRoot = process.cwd(), format, ...page }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await findImplementations(client, file, line, character);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => findImplementationsResult(client, file, line, character, page));
+      return toolResult(result, formatLocationsResult, format);
     } catch (error) {
       return handleError(error);
     }
@@ -211,71 +648,163 @@ server.tool(
 
 // Code Analysis Tools
 
-server.tool(
+registerTool(
   "get-typescript-diagnostics",
   {
-    file: z.string().optional().describe("Specific file to check, or entire workspace"),
-    severity: z.enum(["error", "warning", "info", "hint"]).optional().describe("Minimum severity level"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Code Analysis",
+    description: "Retrieve type errors, warnings, and hints for a file, or a summary for the whole workspace",
+    inputSchema: {
+      file: z.string().optional().describe("Specific file to check, or entire workspace"),
+      severity: z.enum(["error", "warning", "info", "hint"]).optional().describe("Minimum severity level"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      ...pageParams,
+      ...pathFilterParams,
+      format: outputFormat
+    },
+    outputSchema: diagnosticsOutput
   },
-  async ({ file, severity, workspaceRoot = process.cwd() }) => {
+  async ({ file, severity, content, workspaceRoot = process.cwd(), format, ...page }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await getDiagnostics(client, file, severity);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withContent(client, file, content, () => getDiagnosticsResult(client, file, severity, page));
+      return toolResult(result, formatDiagnosticsResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
+registerTool(
+  "get-typescript-hover",
+  {
+    category: "Code Analysis",
+    description: "Get the type signature, documentation and JSDoc tags of the symbol at a position",
+    inputSchema: {
+      file: z.string().optional().describe("File path (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: hoverOutput
+  },
+  async ({ file, line, character, symbol, content, workspaceRoot = process.cwd(), format }) => {
+    try {
+      const client = await getWorkspaceClient(workspaceRoot);
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => getHoverResult(client, file, line, character));
+      return toolResult(result, formatHoverResult, format);
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+);
 
-server.tool(
+registerTool(
   "get-typescript-signature-help",
   {
-    file: z.string().describe("File path"),
-    line: z.number().describe("Line number (1-based)"),
-    character: z.number().describe("Character position (0-based)"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Code Analysis",
+    description: "Get function signature information and parameter details",
+    inputSchema: {
+      file: z.string().optional().describe("File path (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: signatureHelpOutput
   },
-  async ({ file, line, character, workspaceRoot = process.cwd() }) => {
+  async ({ file, line, character, symbol, content, workspaceRoot = process.cwd(), format }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await getSignatureHelp(client, file, line, character);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => getSignatureHelpResult(client, file, line, character));
+      return toolResult(result, formatSignatureHelpResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
-server.tool(
+registerTool(
+  "get-typescript-inlay-hints",
+  {
+    category: "Code Analysis",
+    description: "Get inferred types, parameter names and enum values for a range, optionally inlined into the source",
+    inputSchema: {
+      file: z.string().describe("File path"),
+      startLine: z.number().optional().describe("First line of the range (1-based, defaults to the start of the file)"),
+      endLine: z.number().optional().describe("Last line of the range (1-based, defaults to startLine, or the end of the file)"),
+      inline: z.boolean().optional().describe("Render the source of the range with the hints inserted instead of listing them"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: inlayHintsOutput
+  },
+  async ({ file, startLine, endLine, inline = false, content, workspaceRoot = process.cwd(), format }) => {
+    try {
+      const client = await getWorkspaceClient(workspaceRoot);
+      const result = await withContent(client, file, content, () => getInlayHintsResult(client, file, startLine, endLine, inline));
+      return toolResult(result, formatInlayHintsResult, format);
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+);
+
+registerTool(
+  "get-typescript-completion-info",
+  {
+    category: "Code Analysis",
+    description: "Get auto-completion suggestions, including auto-imports, at any position",
+    inputSchema: {
+      file: z.string().optional().describe("File path (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      prefix: z.string().optional().describe("Only include completions starting with this text (defaults to the identifier before the cursor)"),
+      limit: z.number().optional().describe("Maximum number of completions to return (defaults to 50)"),
+      offset: z.number().optional().describe("Number of completions to skip, to fetch the page after a truncated result"),
+      includeAutoImports: z.boolean().optional().describe("Include completions that would add an import from another module"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: completionsOutput
+  },
+  async ({ file, line, character, symbol, prefix, limit = 50, offset = 0, includeAutoImports = true, content, workspaceRoot = process.cwd(), format }) => {
+    try {
+      const client = await getWorkspaceClient(workspaceRoot);
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => getCompletionsResult(client, file, line, character, prefix, limit, includeAutoImports, offset));
+      return toolResult(result, formatCompletionsResult, format);
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+);
+
+registerTool(
   "check-typescript-types",
   {
-    files: z.array(z.string()).optional().describe("Specific files to check"),
-    strict: z.boolean().optional().describe("Use strict type checking mode"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Code Analysis",
+    description: "Perform comprehensive TypeScript type checking",
+    inputSchema: {
+      files: z.array(z.string()).optional().describe("Specific files to check"),
+      strict: z.boolean().optional().describe("Use strict type checking mode"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: typeCheckOutput
   },
-  async ({ files, strict = false, workspaceRoot = process.cwd() }) => {
+  async ({ files, strict = false, workspaceRoot = process.cwd(), format }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await checkTypes(client, files, strict);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await checkTypesResult(client, files, strict);
+      return toolResult(result, formatTypeCheckResult, format);
     } catch (error) {
       return handleError(error);
     }
@@ -284,171 +813,340 @@ server.tool(
 
 // Code Transformation Tools
 
-server.tool(
+registerTool(
   "organize-typescript-imports",
   {
-    file: z.string().describe("File path to organize imports"),
-    skipDestructiveActions: z.boolean().optional().describe("Skip potentially destructive changes"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Code Transformation",
+    description: "Organize and clean up import statements, returning a diff (optional dry run)",
+    inputSchema: {
+      file: z.string().describe("File path to organize imports"),
+      skipDestructiveActions: z.boolean().optional().describe("Skip potentially destructive changes"),
+      dryRun: z.boolean().optional().describe("Preview the changes as a diff without writing them (defaults to false)"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: organizeImportsOutput
   },
-  async ({ file, skipDestructiveActions, workspaceRoot = process.cwd() }) => {
+  async ({ file, skipDestructiveActions, dryRun = false, content, workspaceRoot = process.cwd(), format }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await organizeImports(client, file, skipDestructiveActions);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withContent(client, file, content, () => organizeImportsResult(client, file, skipDestructiveActions, dryRun));
+      return toolResult(result, formatOrganizeImportsResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
-server.tool(
+registerTool(
   "apply-typescript-code-fixes",
   {
-    file: z.string().describe("File path"),
-    line: z.number().describe("Line number (1-based)"),
-    character: z.number().describe("Character position (0-based)"),
-    fixKind: z.enum(["fixAll", "removeUnused", "addMissingImports", "removeUnusedImports", "sortImports"]).optional().describe("Type of fix to apply"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Code Transformation",
+    description: "List the quick fixes for the diagnostics at a position, or apply one (by index or title) or a whole-file fix kind",
+    inputSchema: {
+      file: z.string().optional().describe("File path (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      fixKind: z.enum(["fixAll", "removeUnused", "addMissingImports", "removeUnusedImports", "sortImports"]).optional().describe("Apply a whole-file fix of this kind instead of a quick fix at the position"),
+      fix: z.union([z.number(), z.string()]).optional().describe("Quick fix to apply, by 1-based index or title (lists the available fixes when omitted)"),
+      dryRun: z.boolean().optional().describe("Preview the changes as a diff without writing them (defaults to false)"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: codeFixesOutput
   },
-  async ({ file, line, character, fixKind, workspaceRoot = process.cwd() }) => {
+  async ({ file, line, character, symbol, fixKind, fix, dryRun = false, content, workspaceRoot = process.cwd(), format }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await applyCodeFixes(client, file, line, character, fixKind);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => applyCodeFixesResult(client, file, line, character, fixKind, fix, dryRun));
+      return toolResult(result, formatCodeFixesResult, format);
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+);
+
+registerTool(
+  "list-typescript-refactorings",
+  {
+    category: "Code Transformation",
+    description: "List the refactorings available for a position or selection",
+    inputSchema: {
+      file: z.string().optional().describe("File path (optional when symbol names the file)"),
+      line: z.number().optional().describe("Start line number (1-based)"),
+      character: z.number().optional().describe("Start character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      endLine: z.number().optional().describe("End line number (1-based, defaults to line)"),
+      endCharacter: z.number().optional().describe("End character position (0-based, defaults to character)"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: refactoringsOutput
+  },
+  async ({ file, line, character, symbol, endLine, endCharacter, content, workspaceRoot = process.cwd(), format }) => {
+    try {
+      const client = await getWorkspaceClient(workspaceRoot);
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => listRefactoringsResult(client, file, line, character, endLine, endCharacter));
+      return toolResult(result, formatRefactoringsResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
+registerTool(
+  "apply-typescript-refactoring",
+  {
+    category: "Code Transformation",
+    description: "Apply a refactoring (extract, move to new file, convert...) and report its edits and rename location",
+    inputSchema: {
+      file: z.string().optional().describe("File path (optional when symbol names the file)"),
+      line: z.number().optional().describe("Start line number (1-based)"),
+      character: z.number().optional().describe("Start character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      endLine: z.number().optional().describe("End line number (1-based, defaults to line)"),
+      endCharacter: z.number().optional().describe("End character position (0-based, defaults to character)"),
+      refactoring: z.union([z.number(), z.string()]).describe("Refactoring to apply, by 1-based index from list-typescript-refactorings or by title"),
+      dryRun: z.boolean().optional().describe("Preview the changes as a diff without writing them (defaults to false)"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: refactoringOutput
+  },
+  async ({ file, line, character, symbol, endLine, endCharacter, refactoring, dryRun = false, content, workspaceRoot = process.cwd(), format }) => {
+    try {
+      const client = await getWorkspaceClient(workspaceRoot);
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => applyRefactoringResult(client, file, line, character, endLine, endCharacter, refactoring, dryRun));
+      return toolResult(result, formatRefactoringResult, format);
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+);
+
+registerTool(
+  "rename-typescript-symbol",
+  {
+    category: "Code Transformation",
+    description: "Rename a symbol across the workspace (dry run by default)",
+    inputSchema: {
+      file: z.string().optional().describe("File path containing the symbol (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      newName: z.string().describe("New name for the symbol"),
+      dryRun: z.boolean().optional().describe("Only preview the edits without writing them (defaults to true)"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: renameOutput
+  },
+  async ({ file, line, character, symbol, newName, dryRun = true, content, workspaceRoot = process.cwd(), format }) => {
+    try {
+      const client = await getWorkspaceClient(workspaceRoot);
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => renameSymbolResult(client, file, line, character, newName, dryRun));
+      return toolResult(result, formatRenameResult, format);
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+);
+
+registerTool(
+  "move-typescript-file",
+  {
+    category: "Code Transformation",
+    description: "Move a file or directory and update every import that points into it",
+    inputSchema: {
+      source: z.string().describe("File or directory to move"),
+      destination: z.string().describe("New path for the file or directory"),
+      dryRun: z.boolean().optional().describe("Preview the move and import updates as a diff without changing anything (defaults to false)"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: moveFileOutput
+  },
+  async ({ source, destination, dryRun = false, workspaceRoot = process.cwd(), format }) => {
+    try {
+      const client = await getWorkspaceClient(workspaceRoot);
+      const result = await moveFileResult(client, source, destination, dryRun);
+      return toolResult(result, formatMoveFileResult, format);
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+);
+
+registerTool(
+  "format-typescript-file",
+  {
+    category: "Code Transformation",
+    description: "Format a file or line range using .editorconfig and the given format options",
+    inputSchema: {
+      file: z.string().describe("File path to format"),
+      line: z.number().optional().describe("First line to format (1-based); formats the whole file when omitted"),
+      endLine: z.number().optional().describe("Last line to format (1-based, defaults to line)"),
+      indentSize: z.number().optional().describe("Indentation size (defaults to .editorconfig, then 4)"),
+      tabSize: z.number().optional().describe("Tab size (defaults to .editorconfig, then 4)"),
+      insertSpaces: z.boolean().optional().describe("Indent with spaces instead of tabs (defaults to .editorconfig, then true)"),
+      semicolons: z.enum(["ignore", "insert", "remove"]).optional().describe("Insert or remove statement-ending semicolons (defaults to ignore)"),
+      quoteStyle: z.enum(["single", "double", "auto"]).optional().describe("Quotes for string literals (defaults to .editorconfig quote_type, then auto, which leaves them as they are)"),
+      dryRun: z.boolean().optional().describe("Preview the changes as a diff without writing them (defaults to false)"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: formatOutput
+  },
+  async ({ file, line, endLine, indentSize, tabSize, insertSpaces, semicolons, quoteStyle, dryRun = false, content, workspaceRoot = process.cwd(), format }) => {
+    try {
+      const client = await getWorkspaceClient(workspaceRoot);
+      const options = Object.fromEntries(
+        Object.entries({ indentSize, tabSize, insertSpaces, semicolons, quoteStyle }).filter(([, value]) => value !== undefined)
+      );
+      const result = await withContent(client, file, content, () => formatFileResult(client, file, options, line, endLine, dryRun));
+      return toolResult(result, formatFormatResult, format);
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+);
 
 // Workspace Understanding Tools
 
-server.tool(
+registerTool(
   "list-typescript-symbols",
   {
-    file: z.string().optional().describe("Specific file, or entire workspace"),
-    kind: z.enum(["class", "interface", "function", "variable", "module", "type", "enum", "all"]).optional().describe("Filter by symbol type"),
-    hierarchical: z.boolean().optional().describe("Return hierarchical structure"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Workspace Understanding",
+    description: "Get document or workspace symbol outline",
+    inputSchema: {
+      file: z.string().optional().describe("Specific file, or entire workspace"),
+      kind: z.enum(["class", "interface", "function", "variable", "module", "type", "enum", "all"]).optional().describe("Filter by symbol type"),
+      hierarchical: z.boolean().optional().describe("Return hierarchical structure"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      ...pageParams,
+      ...pathFilterParams,
+      format: outputFormat
+    },
+    outputSchema: symbolsOutput
   },
-  async ({ file, kind, hierarchical = false, workspaceRoot = process.cwd() }) => {
+  async ({ file, kind, hierarchical = false, content, workspaceRoot = process.cwd(), format, ...page }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await listSymbols(client, file, kind, hierarchical);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withContent(client, file, content, () => listSymbolsResult(client, file, kind, hierarchical, page));
+      return toolResult(result, formatSymbolsResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
-server.tool(
+registerTool(
   "get-typescript-call-hierarchy",
   {
-    file: z.string().describe("File containing the function"),
-    line: z.number().describe("Line number (1-based)"),
-    character: z.number().describe("Character position (0-based)"),
-    direction: z.enum(["incoming", "outgoing", "both"]).optional().describe("Call direction to analyze"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Workspace Understanding",
+    description: "Show function call relationships",
+    inputSchema: {
+      file: z.string().optional().describe("File containing the function (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      direction: z.enum(["incoming", "outgoing", "both"]).optional().describe("Call direction to analyze"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: callHierarchyOutput
   },
-  async ({ file, line, character, direction = "both", workspaceRoot = process.cwd() }) => {
+  async ({ file, line, character, symbol, direction = "both", content, workspaceRoot = process.cwd(), format }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await getCallHierarchy(client, file, line, character, direction);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => getCallHierarchyResult(client, file, line, character, direction));
+      return toolResult(result, formatCallHierarchyResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
-server.tool(
+registerTool(
   "get-typescript-type-hierarchy",
   {
-    file: z.string().describe("File containing the type"),
-    line: z.number().describe("Line number (1-based)"),
-    character: z.number().describe("Character position (0-based)"),
-    direction: z.enum(["supertypes", "subtypes", "both"]).optional().describe("Type hierarchy direction"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Workspace Understanding",
+    description: "Show type inheritance relationships",
+    inputSchema: {
+      file: z.string().optional().describe("File containing the type (optional when symbol names the file)"),
+      line: z.number().optional().describe("Line number (1-based)"),
+      character: z.number().optional().describe("Character position (0-based)"),
+      symbol: z.string().optional().describe("Symbol locator to use instead of line and character, e.g. src/user.ts#UserService.getUser or #Repository.findById"),
+      direction: z.enum(["supertypes", "subtypes", "both"]).optional().describe("Type hierarchy direction"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: typeHierarchyOutput
   },
-  async ({ file, line, character, direction = "both", workspaceRoot = process.cwd() }) => {
+  async ({ file, line, character, symbol, direction = "both", content, workspaceRoot = process.cwd(), format }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await getTypeHierarchy(client, file, line, character, direction);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withPosition(client, { file, line, character, symbol }, content, (file, line, character) => getTypeHierarchyResult(client, file, line, character, direction));
+      return toolResult(result, formatTypeHierarchyResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
-server.tool(
+registerTool(
   "analyze-typescript-imports",
   {
-    file: z.string().optional().describe("Specific file or entire workspace"),
-    showUnused: z.boolean().optional().describe("Include unused imports"),
-    showMissing: z.boolean().optional().describe("Include missing imports"),
-    includeNodeModules: z.boolean().optional().describe("Include external dependencies"),
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Workspace Understanding",
+    description: "Understand module dependencies and import relationships",
+    inputSchema: {
+      file: z.string().optional().describe("Specific file or entire workspace"),
+      showUnused: z.boolean().optional().describe("Include unused imports"),
+      showMissing: z.boolean().optional().describe("Include missing imports"),
+      includeNodeModules: z.boolean().optional().describe("Include external dependencies"),
+      content: z.string().optional().describe("Unsaved content to use for the file instead of what is on disk"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: importAnalysisOutput
   },
-  async ({ file, showUnused = false, showMissing = false, includeNodeModules = false, workspaceRoot = process.cwd() }) => {
+  async ({ file, showUnused = false, showMissing = false, includeNodeModules = false, content, workspaceRoot = process.cwd(), format }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await analyzeImports(client, file, showUnused, showMissing, includeNodeModules);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await withContent(client, file, content, () => analyzeImportsResult(client, file, showUnused, showMissing, includeNodeModules));
+      return toolResult(result, formatImportAnalysisResult, format);
     } catch (error) {
       return handleError(error);
     }
   }
 );
 
-server.tool(
+registerTool(
   "get-typescript-project-info",
   {
-    workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)")
+    category: "Workspace Understanding",
+    description: "Get TypeScript project configuration and compilation info",
+    inputSchema: {
+      workspaceRoot: z.string().optional().describe("Workspace root directory (defaults to current directory)"),
+      format: outputFormat
+    },
+    outputSchema: projectInfoOutput
   },
-  async ({ workspaceRoot = process.cwd() }) => {
+  async ({ workspaceRoot = process.cwd(), format }) => {
     try {
       const client = await getWorkspaceClient(workspaceRoot);
-      const result = await getProjectInfo(client, workspaceRoot);
-      return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
-      };
+      const result = await getProjectInfoResult(client, workspaceRoot);
+      return toolResult(result, formatProjectInfoResult, format);
     } catch (error) {
       return handleError(error);
     }
@@ -461,54 +1159,175 @@ server.tool(
 
 // Utility Tools
 
-server.tool(
-  "tool-info",
-  {},
-  async () => {
-    const isAvailable = await checkTypeScriptLSPAvailable();
+interface BatchItemResult {
+  tool: string;
+  isError: boolean;
+  text: string;
+  structuredContent?: { [key: string]: unknown };
+}
+
+const batchOutput = {
+  results: z.array(z.object({
+    tool: z.string(),
+    isError: z.boolean(),
+    text: z.string(),
+    structuredContent: z.record(z.unknown()).optional().describe("The tool's own structured result")
+  }))
+};
+
+async function runBatchOperation(
+  name: string,
+  args: { [key: string]: unknown },
+  extra: Parameters<ToolCallback<z.ZodRawShape>>[1]
+): Promise<BatchItemResult> {
+  const tool = batchableTools.get(name);
+  if (!tool) {
+    return { tool: name, isError: true, text: `Unknown tool: ${name}` };
+  }
+  const parsed = tool.inputSchema.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join(".") || "arguments"}: ${issue.message}`);
+    return { tool: name, isError: true, text: `Invalid arguments: ${issues.join("; ")}` };
+  }
+
+  try {
+    const result = await tool.handler(parsed.data, extra);
     return {
-      content: [{
-        type: "text" as const,
-        text: `TypeScript Language Server MCP Server
-        
-Available: ${isAvailable ? 'Yes' : 'No'}
-Version: 1.0.0
+      tool: name,
+      isError: result.isError === true,
+      text: result.content.map(item => item.type === "text" ? item.text : "").join("\n"),
+      structuredContent: result.structuredContent
+    };
+  } catch (error) {
+    return { tool: name, isError: true, text: handleError(error).content[0].text };
+  }
+}
+
+// Operations that edit files, or override a file's content on the shared language server,
+// change what the other operations see, so they cannot overlap with anything
+function runsAlone(name: string, args: { [key: string]: unknown }): boolean {
+  return batchableTools.get(name)?.category === "Code Transformation" || args.content !== undefined;
+}
+
+function formatBatchResult({ results }: { results: BatchItemResult[] }): string {
+  const failed = results.filter(result => result.isError).length;
+  const sections = results.map((result, index) =>
+    `[${index + 1}] ${result.tool}${result.isError ? " (error)" : ""}\n${result.text}`
+  );
+  return `Ran ${results.length} operation${results.length !== 1 ? "s" : ""}${failed > 0 ? ` (${failed} failed)` : ""}:\n\n${sections.join("\n\n")}`;
+}
+
+const batchDescription = "Run several of the other tools against one workspace, with a result or error per operation; read-only operations run concurrently";
+toolCatalog.push({ name: "typescript-batch", category: "Utilities", description: batchDescription });
+server.registerTool(
+  "typescript-batch",
+  {
+    description: batchDescription,
+    inputSchema: {
+      operations: z.array(z.object({
+        tool: z.enum([...batchableTools.keys()] as [string, ...string[]]).describe("Name of the tool to run"),
+        arguments: z.record(z.unknown()).optional().describe("Arguments for the tool, as it takes them when called on its own")
+      })).min(1).describe("Operations to run; results come back in the same order"),
+      workspaceRoot: z.string().optional().describe("Workspace root directory for operations that do not set their own (defaults to current directory)"),
+      format: outputFormat,
+      timeoutMs: timeoutParams.timeoutMs.describe("Default timeoutMs for operations that do not set their own")
+    },
+    outputSchema: batchOutput
+  },
+  async ({ operations, workspaceRoot = process.cwd(), format, timeoutMs }, extra) => {
+    try {
+      const operationArguments = operations.map(operation => ({ timeoutMs, workspaceRoot, ...operation.arguments }));
+
+      // Start each language server once, so the operations share it instead of racing to spawn their own.
+      // An operation whose server fails to start reports that itself.
+      const roots = new Set(operationArguments.map(args => args.workspaceRoot).filter(root => typeof root === "string"));
+      await Promise.all(Array.from(roots, root => getWorkspaceClient(root).catch(() => {})));
+
+      // Read-only operations run concurrently until one that has to run alone, which waits for them
+      const results: BatchItemResult[] = [];
+      let running: Promise<BatchItemResult>[] = [];
+      for (const [index, operation] of operations.entries()) {
+        const args = operationArguments[index];
+        if (runsAlone(operation.tool, args)) {
+          results.push(...await Promise.all(running));
+          running = [];
+          results.push(await runBatchOperation(operation.tool, args, extra));
+        } else {
+          running.push(runBatchOperation(operation.tool, args, extra));
+        }
+      }
+      results.push(...await Promise.all(running));
+      return toolResult({ results }, formatBatchResult, format);
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+);
+
+const toolInfoOutput = {
+  available: z.boolean().describe("Whether the TypeScript Language Server is installed"),
+  version: z.string(),
+  tools: z.array(z.object({ name: z.string(), category: z.enum(toolCategories), description: z.string() })),
+  languageServers: z.array(z.object({
+    workspaceRoot: z.string(),
+    status: z.string().describe("'ready', or what the server is still doing, such as loading the project")
+  }))
+};
+
+type ToolInfo = z.infer<z.ZodObject<typeof toolInfoOutput>>;
+
+function formatToolInfo(info: ToolInfo): string {
+  const sections = toolCategories.map(category => {
+    const tools = info.tools.filter(tool => tool.category === category);
+    return `${category}:\n${tools.map(tool => `- ${tool.name}: ${tool.description}`).join("\n")}`;
+  });
+  const languageServers = info.languageServers.map(server => `- ${server.workspaceRoot}: ${server.status}`);
+
+  return `TypeScript Language Server MCP Server
+
+Available: ${info.available ? 'Yes' : 'No'}
+Version: ${info.version}
 
 This server provides TypeScript/JavaScript code analysis using the TypeScript Language Server.
 
 Available tools:
-Symbol Navigation:
-- find-symbol: Search for symbols by name across the workspace
-- goto-definition: Find where a symbol is defined
-- goto-source-definition: Find the source definition (not just declaration)
-- goto-type-definition: Find where the type of a symbol is defined
-- find-references: Find all references to a symbol
-- find-implementations: Find all implementations of an interface or abstract method
-
-Code Analysis:
-- get-diagnostics: Retrieve type errors, warnings, and hints
-- get-signature-help: Get function signature information and parameter details
-- check-types: Perform comprehensive TypeScript type checking
-
-Code Transformation:
-- organize-imports: Organize and clean up import statements
-- apply-code-fixes: Apply available code fixes for issues
-
-Workspace Understanding:
-- list-symbols: Get document or workspace symbol outline
-- get-call-hierarchy: Show function call relationships
-- get-type-hierarchy: Show type inheritance relationships
-- analyze-imports: Understand module dependencies and import relationships
-- get-project-info: Get TypeScript project configuration and compilation info
-
-Code Quality:
-
-Utilities:
-- tool-info: Get information about this tool
-
-All tools support workspace management and can work with multiple TypeScript/JavaScript projects simultaneously.`
-      }]
-    };
+${sections.join("\n\n")}
+
+All tools support workspace management and can work with multiple TypeScript/JavaScript projects simultaneously.
+Every tool returns typed structuredContent matching its output schema; pass format "json" to get it as text as well.
+List tools return 100 entries at a time by default; use limit and offset to page, and include/exclude path globs to narrow to a subtree.
+Every tool accepts timeoutMs to override the configured language server request timeouts for that call.
+Workspace-wide queries wait until the language server has loaded the workspace's projects; errors report what it is still doing.
+
+Language servers:
+${languageServers.join("\n") || '- none started yet'}`;
+}
+
+registerTool(
+  "tool-info",
+  {
+    category: "Utilities",
+    description: "Get information about this server, its tools and the status of its language servers",
+    inputSchema: {
+      format: outputFormat
+    },
+    outputSchema: toolInfoOutput
+  },
+  async ({ format }) => {
+    try {
+      const info: ToolInfo = {
+        available: await checkTypeScriptLSPAvailable(),
+        version: "1.0.0",
+        tools: toolCatalog,
+        languageServers: workspaceManager.listWorkspaces().map(client => ({
+          workspaceRoot: client.getWorkspaceRoot(),
+          status: client.getReadiness()
+        }))
+      };
+      return toolResult(info, formatToolInfo, format);
+    } catch (error) {
+      return handleError(error);
+    }
   }
 );
 
@@ -537,7 +1356,7 @@ server.resource(
             }
           }
         },
-        activeWorkspaces: Array.from(workspaceManager['workspaces'].keys())
+        activeWorkspaces: workspaceManager.listWorkspaces().map(client => client.getWorkspaceRoot())
       };
 
       return {
@@ -571,7 +1390,7 @@ server.resource(
 Node.js Version: ${nodeVersion}
 Working Directory: ${process.cwd()}
 
-Active Workspaces: ${Array.from(workspaceManager['workspaces'].keys()).join(', ') || 'None'}`;
+Active Workspaces: ${workspaceManager.listWorkspaces().map(client => client.getWorkspaceRoot()).join(', ') || 'None'}`;
 
       return {
         contents: [{
@@ -594,48 +1413,20 @@ Active Workspaces: ${Array.from(workspaceManager['workspaces'].keys()).join(', '
 
 server.resource(
   "refactoring-catalog",
-  "typescript://refactorings/available",
-  async (uri) => {
+  new ResourceTemplate("typescript://refactorings/available{?file}", { list: undefined }),
+  async (uri, { file }) => {
     try {
-      const availableRefactorings = {
-        "Extract to function": {
-          description: "Extract selected code to a new function",
-          kind: "refactor.extract.function"
-        },
-        "Extract to constant": {
-          description: "Extract selected expression to a constant",
-          kind: "refactor.extract.constant"
-        },
-        "Extract to interface": {
-          description: "Extract type to an interface",
-          kind: "refactor.extract.interface"
-        },
-        "Move to new file": {
-          description: "Move symbol to a new file",
-          kind: "refactor.move.newFile"
-        },
-        "Convert to arrow function": {
-          description: "Convert function declaration to arrow function",
-          kind: "refactor.rewrite.function.arrow"
-        },
-        "Add or remove braces": {
-          description: "Add or remove braces in arrow function",
-          kind: "refactor.rewrite.arrow.braces"
-        },
-        "Convert parameters to destructured object": {
-          description: "Convert function parameters to destructured object",
-          kind: "refactor.rewrite.parameters.toDestructured"
-        },
-        "Convert to template string": {
-          description: "Convert string concatenation to template literal",
-          kind: "refactor.rewrite.import.named"
-        }
-      };
+      const filePath = Array.isArray(file) ? file[0] : file;
+      if (!filePath) {
+        throw new Error("A file query parameter is required, as in typescript://refactorings/available?file=/path/to/file.ts");
+      }
+      const client = await getWorkspaceClient();
+      const catalog = await getRefactoringCatalog(client, decodeURIComponent(filePath));
 
       return {
         contents: [{
           uri: uri.href,
-          text: JSON.stringify(availableRefactorings, null, 2),
+          text: JSON.stringify(catalog, null, 2),
           mimeType: "application/json"
         }]
       };
@@ -709,6 +1500,7 @@ Use these TypeScript MCP tools:
 3. find-implementations - Find implementations if it's an interface
 4. get-call-hierarchy - Understand call relationships
 5. get-type-hierarchy - Understand type inheritance relationships
+6. list-refactorings - See which automated refactorings apply to the symbol
 
 ${workspaceRoot ? `Workspace: ${workspaceRoot}` : ''}
 
@@ -742,12 +1534,13 @@ server.prompt(
         text: `Help debug a type issue in TypeScript/JavaScript code at ${file}:${line}:${character}
 
 Use these TypeScript MCP tools to investigate:
-1. goto-definition - Find the symbol definition
-2. goto-type-definition - Find the type definition
-3. get-diagnostics - Check for type errors and warnings
-4. find-references - See how the symbol is used elsewhere
-5. get-signature-help - Get function signature information
-6. apply-code-fixes - Get available code fixes
+1. get-hover - Get the type and documentation of the symbol
+2. goto-definition - Find the symbol definition
+3. goto-type-definition - Find the type definition
+4. get-diagnostics - Check for type errors and warnings
+5. find-references - See how the symbol is used elsewhere
+6. get-signature-help - Get function signature information
+7. apply-code-fixes - Get available code fixes
 
 ${workspaceRoot ? `Workspace: ${workspaceRoot}` : ''}
 
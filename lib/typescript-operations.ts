@@ -1,9 +1,12 @@
-import { spawn, ChildProcess } from 'node:child_process';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { spawn, type ChildProcess } from 'node:child_process';
 import { EventEmitter } from 'node:events';
+import type { Dirent } from 'node:fs';
 import { tmpdir } from 'node:os';
-import { join } from 'node:path';
-import { mkdir, rm } from 'node:fs/promises';
+import { join, dirname, isAbsolute, relative, resolve } from 'node:path';
+import { mkdir, rm, readFile, readdir, writeFile, rename, stat, cp } from 'node:fs/promises';
 import { randomUUID } from 'node:crypto';
+import { fileURLToPath, pathToFileURL } from 'node:url';
 
 // LSP Message Types
 interface Message {
@@ -19,18 +22,47 @@ interface Message {
   };
 }
 
+// Header part of a base protocol message. Content-Length is required; Content-Type
+// may name the charset, which defaults to utf-8 ('utf8' is accepted for compatibility).
+interface MessageHeader {
+  contentLength: number;
+  charset: string;
+  malformedLines: string[];
+}
+
+function parseMessageHeader(text: string): MessageHeader | null {
+  let contentLength: number | undefined;
+  let charset = 'utf-8';
+  const malformedLines: string[] = [];
+
+  for (const line of text.split('\r\n')) {
+    const match = line.match(/^([^:\s]+):\s*(.*?)\s*$/);
+    const name = match ? match[1].toLowerCase() : '';
+    const value = match ? match[2] : '';
+    if (name === 'content-length' && /^\d+$/.test(value)) {
+      contentLength = Number(value);
+    } else if (name === 'content-type') {
+      charset = value.match(/;\s*charset="?([^";\s]+)/i)?.[1] ?? charset;
+    } else if (!match || name === 'content-length') {
+      malformedLines.push(line);
+    }
+  }
+
+  return contentLength === undefined ? null : { contentLength, charset, malformedLines };
+}
+
 // LSP Protocol Types
-interface Position {
+export interface Position {
   line: number;
   character: number;
 }
 
-interface Range {
+export interface Range {
   start: Position;
   end: Position;
 }
 
-interface Location {
+export interface Location {
   uri: string;
   range: Range;
 }
@@ -96,12 +128,143 @@ interface TypeHierarchyItem {
   selectionRange: Range;
 }
 
+interface DocumentHighlight {
+  range: Range;
+  kind?: number;
+}
+
+interface InlayHintLabelPart {
+  value: string;
+  location?: Location;
+}
+
+interface InlayHint {
+  position: Position;
+  label: string | InlayHintLabelPart[];
+  kind?: number;
+  paddingLeft?: boolean;
+  paddingRight?: boolean;
+}
+
+
+interface DiagnosticRelatedInformation {
+  location: Location;
+  message: string;
+}
+
+interface Diagnostic {
+  range: Range;
+  severity?: number;
+  code?: number | string;
+  source?: string;
+  message: string;
+  relatedInformation?: DiagnosticRelatedInformation[];
+}
+
+interface PublishDiagnosticsParams {
+  uri: string;
+  version?: number;
+  diagnostics: Diagnostic[];
+}
+
+interface MarkupContent {
+  kind: 'plaintext' | 'markdown';
+  value: string;
+}
+
+type MarkedString = string | { language: string; value: string };
+
+interface Hover {
+  contents: MarkupContent | MarkedString | MarkedString[];
+  range?: Range;
+}
+
+interface CompletionItem {
+  label: string;
+  kind?: number;
+  detail?: string;
+  documentation?: string | MarkupContent;
+  sortText?: string;
+  tags?: number[];
+  deprecated?: boolean;
+  data?: {
+    entryNames?: (string | { name: string; source?: string })[];
+  };
+}
+
+interface CompletionList {
+  isIncomplete: boolean;
+  items: CompletionItem[];
+}
+
+interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+interface TextDocumentEdit {
+  textDocument: {
+    uri: string;
+    version: number | null;
+  };
+  edits: TextEdit[];
+}
+
+interface CreateFile {
+  kind: 'create';
+  uri: string;
+  options?: {
+    overwrite?: boolean;
+    ignoreIfExists?: boolean;
+  };
+}
+
+interface RenameFile {
+  kind: 'rename';
+  oldUri: string;
+  newUri: string;
+  options?: {
+    overwrite?: boolean;
+    ignoreIfExists?: boolean;
+  };
+}
+
+interface DeleteFile {
+  kind: 'delete';
+  uri: string;
+  options?: {
+    recursive?: boolean;
+    ignoreIfNotExists?: boolean;
+  };
+}
+
+type DocumentChange = TextDocumentEdit | CreateFile | RenameFile | DeleteFile;
+
+interface WorkspaceEdit {
+  changes?: { [uri: string]: TextEdit[] };
+  documentChanges?: DocumentChange[];
+}
+
+interface ApplyWorkspaceEditParams {
+  label?: string;
+  edit: WorkspaceEdit;
+}
+
+interface Command {
+  title: string;
+  command: string;
+  arguments?: unknown[];
+}
 
 interface CodeAction {
   title: string;
   kind?: string;
-  edit?: unknown;
-  command?: unknown;
+  diagnostics?: Diagnostic[];
+  isPreferred?: boolean;
+  disabled?: { reason: string };
+  edit?: WorkspaceEdit;
+  command?: Command;
+  data?: unknown;
 }
 
 // TypeScript-specific types
@@ -116,21 +279,654 @@ export interface TypeScriptResult {
   exitCode: number;
 }
 
+export interface RefactoringInfo {
+  title: string;
+  kind: string;
+}
+
+export interface SymbolPosition {
+  file: string;
+  line: number;
+  character: number;
+}
+
+export interface FormatOptions {
+  tabSize?: number;
+  indentSize?: number;
+  insertSpaces?: boolean;
+  semicolons?: 'ignore' | 'insert' | 'remove';
+  newLineCharacter?: string;
+  // Quotes for string literals; 'auto' leaves them as they are
+  quoteStyle?: 'single' | 'double' | 'auto';
+}
+
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
+  // Path globs, relative to the workspace root unless absolute
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface WorkspaceEditResult {
+  applied: boolean;
+  files: string[];
+  diff: string;
+}
+
+// Structured tool results; the text each operation returns is rendered from these
+
+export interface PageInfo {
+  offset: number;
+  limit: number;
+  // Entries left after the path filters, before paging
+  total: number;
+  returned: number;
+  // Set when more entries follow this page
+  nextOffset?: number;
+}
+
+export interface SymbolEntry {
+  name: string;
+  kind: string;
+  location: Location;
+  containerName?: string;
+  detail?: string;
+  children?: SymbolEntry[];
+}
+
+export interface SymbolsResult {
+  // Set for document symbols, absent for a workspace search
+  file?: string;
+  query?: string;
+  kind?: string;
+  symbols: SymbolEntry[];
+  page: PageInfo;
+}
+
+export interface LocationsResult {
+  target: 'definition' | 'source definition' | 'type definition' | 'implementation';
+  locations: Location[];
+  page: PageInfo;
+}
+
+export interface SourceLine {
+  line: number;
+  text: string;
+}
+
+export type ReferenceKind = 'declaration' | 'import' | 'type' | 'write' | 'read';
+
+export interface ReferenceEntry {
+  location: Location;
+  kind: ReferenceKind;
+  enclosingSymbol?: string;
+  context: SourceLine[];
+}
+
+export interface ReferencesResult {
+  symbolName?: string;
+  // Counts cover every reference that passed the path filters, not just this page
+  counts: { [kind: string]: number };
+  files: { file: string; count: number; references: ReferenceEntry[] }[];
+  page: PageInfo;
+}
+
+export interface HighlightsResult {
+  file: string;
+  symbolName?: string;
+  counts: { [kind: string]: number };
+  highlights: { range: Range; kind: 'text' | 'read' | 'write'; text: string }[];
+  page: PageInfo;
+}
+
+export interface DiagnosticEntry {
+  file?: string;
+  range: Range;
+  severity: string;
+  code?: string;
+  source?: string;
+  message: string;
+  relatedInformation?: { location: Location; message: string }[];
+}
+
+export interface DiagnosticsResult {
+  // A single file, or the whole workspace under workspaceRoot
+  file?: string;
+  workspaceRoot?: string;
+  severity?: string;
+  filesChecked: number;
+  // Totals cover every diagnostic found, not just this page
+  totals: { [severity: string]: number };
+  byCode?: { code: string; count: number }[];
+  byFile?: { file: string; counts: { [severity: string]: number } }[];
+  diagnostics: DiagnosticEntry[];
+  page: PageInfo;
+}
+
+export interface HoverResult {
+  signature?: string;
+  kind?: string;
+  range?: Range;
+  documentation: string[];
+  tags: { name: string; target?: string; text: string }[];
+}
+
+export interface SignatureHelpResult {
+  signatures: {
+    label: string;
+    documentation?: string;
+    parameters: { label: string; documentation?: string }[];
+  }[];
+}
+
+export interface CompletionsResult {
+  prefix: string;
+  // Items the server offered before filtering by prefix
+  available: number;
+  completions: {
+    label: string;
+    kind: string;
+    autoImportFrom?: string;
+    deprecated: boolean;
+    detail?: string;
+    documentation?: string;
+  }[];
+  page: PageInfo;
+}
+
+export interface InlayHintsResult {
+  file: string;
+  startLine: number;
+  endLine: number;
+  hints: { position: Position; kind: 'type' | 'parameter' | 'value'; label: string }[];
+  // The source of the range with the hints inserted, when requested
+  inlined?: SourceLine[];
+}
+
+export interface CodeActionSummary {
+  title: string;
+  kind: string;
+  isPreferred?: boolean;
+  disabledReason?: string;
+}
+
+export interface OrganizeImportsResult {
+  file: string;
+  dryRun: boolean;
+  files: string[];
+  diff: string;
+}
+
+export interface CodeFixesResult {
+  fixKind?: string;
+  fixes: CodeActionSummary[];
+  // The fix that was selected, when one was
+  applied?: {
+    title: string;
+    kind: string;
+    dryRun: boolean;
+    command?: string;
+    files: string[];
+    diff: string;
+  };
+}
+
+export interface RefactoringsResult {
+  range: Range;
+  refactorings: CodeActionSummary[];
+}
+
+export interface RefactoringResult {
+  title: string;
+  kind: string;
+  dryRun: boolean;
+  changed: boolean;
+  files: string[];
+  diff: string;
+  renameLocation?: Location;
+}
+
+export interface RenameResult {
+  oldName?: string;
+  newName: string;
+  dryRun: boolean;
+  totalEdits: number;
+  files: { file: string; edits: { range: Range; oldText: string; newText: string }[] }[];
+  appliedFiles?: string[];
+}
+
+export interface MoveFileResult {
+  source: string;
+  destination: string;
+  directory: boolean;
+  dryRun: boolean;
+  importUpdates: number;
+  updatedFiles: string[];
+  diff: string;
+}
+
+export interface FormatResult {
+  file: string;
+  startLine?: number;
+  endLine?: number;
+  dryRun: boolean;
+  diff: string;
+}
+
+export interface HierarchyNode {
+  name: string;
+  kind: string;
+  location: Location;
+}
+
+export interface CallHierarchyResult {
+  // Null when there is no callable symbol at the position
+  item: HierarchyNode | null;
+  incoming?: HierarchyNode[];
+  outgoing?: HierarchyNode[];
+}
+
+export interface TypeHierarchyResult {
+  item: HierarchyNode | null;
+  supertypes?: HierarchyNode[];
+  subtypes?: HierarchyNode[];
+  // Directions the server failed to answer
+  unavailable: ('supertypes' | 'subtypes')[];
+}
+
+export interface ImportAnalysisResult {
+  file?: string;
+  unused?: string[];
+  missing?: string[];
+  organize: string[];
+}
+
+export interface ProjectInfoResult {
+  workspaceRoot: string;
+  languageServer: string;
+  projectType: string;
+}
+
+export interface TypeCheckResult {
+  passed: boolean;
+  output: string;
+}
+
+// The server's copy of an open document, and the disk state it was taken from
+interface OpenDocument {
+  version: number;
+  content: string;
+  mtimeMs: number;
+  size: number;
+  // Opened as a placeholder because the file did not exist
+  missing?: boolean;
+}
+
+// An unexpected server exit, and the documents to reopen once the server restarts
+interface ServerCrash {
+  exitedAt: number;
+  reason: string;
+  documents: { path: string; override?: string }[];
+}
+
+// Work the server reports progress for, such as loading a project
+interface ProgressTask {
+  title?: string;
+  message?: string;
+  percentage?: number;
+  startedAt: number;
+}
+
+interface ProgressParams {
+  token: number | string;
+  value: { kind: 'begin' | 'report' | 'end'; title?: string; message?: string; percentage?: number };
+}
+
+function describeProgress(task: ProgressTask): string {
+  const percentage = task.percentage !== undefined ? ` ${task.percentage}%` : '';
+  const message = task.message ? `: ${task.message}` : '';
+  const elapsed = Math.round((Date.now() - task.startedAt) / 1000);
+  return `${task.title ?? 'starting work'}${message}${percentage} (${elapsed}s so far)`;
+}
+
+// Uptime after which a crash no longer counts towards the previous ones
+const STABLE_SERVER_UPTIME = 60_000;
+
+/**
+ * Time budgets in milliseconds. Requests get the budget for their method, or the
+ * general request budget, but never less than the project load budget until the
+ * server has answered its first request, since that one waits for the project to load.
+ */
+export interface TimeoutConfig {
+  spawn: number;
+  initialize: number;
+  projectLoad: number;
+  request: number;
+  methods: Record<string, number>;
+  availabilityCheck: number;
+}
+
+export const DEFAULT_TIMEOUTS: TimeoutConfig = {
+  spawn: 5000,
+  initialize: 10000,
+  projectLoad: 60000,
+  request: 10000,
+  methods: {},
+  availabilityCheck: 3000,
+};
+
+// Environment variables that configure each budget, also named in timeout errors
+const TIMEOUT_ENV = {
+  spawn: 'TYPESCRIPT_LSP_SPAWN_TIMEOUT',
+  initialize: 'TYPESCRIPT_LSP_INITIALIZE_TIMEOUT',
+  projectLoad: 'TYPESCRIPT_LSP_PROJECT_LOAD_TIMEOUT',
+  request: 'TYPESCRIPT_LSP_REQUEST_TIMEOUT',
+  methods: 'TYPESCRIPT_LSP_METHOD_TIMEOUTS',
+  availabilityCheck: 'TYPESCRIPT_LSP_AVAILABILITY_TIMEOUT',
+} as const;
+
+function parseTimeout(value: string | undefined): number | undefined {
+  const timeout = Number(value);
+  return value && Number.isFinite(timeout) && timeout > 0 ? timeout : undefined;
+}
+
+/**
+ * Read timeout budgets from the environment. Method budgets are given as a comma
+ * separated list such as `textDocument/references=30000,workspace/symbol=60000`.
+ * Missing or invalid values keep their defaults.
+ */
+export function timeoutsFromEnv(env: NodeJS.ProcessEnv = process.env): TimeoutConfig {
+  const methods: Record<string, number> = {};
+  for (const entry of (env[TIMEOUT_ENV.methods] ?? '').split(',')) {
+    const [method, value] = entry.split('=').map(part => part.trim());
+    const timeout = parseTimeout(value);
+    if (method && timeout !== undefined) {
+      methods[method] = timeout;
+    }
+  }
+
+  return {
+    spawn: parseTimeout(env[TIMEOUT_ENV.spawn]) ?? DEFAULT_TIMEOUTS.spawn,
+    initialize: parseTimeout(env[TIMEOUT_ENV.initialize]) ?? DEFAULT_TIMEOUTS.initialize,
+    projectLoad: parseTimeout(env[TIMEOUT_ENV.projectLoad]) ?? DEFAULT_TIMEOUTS.projectLoad,
+    request: parseTimeout(env[TIMEOUT_ENV.request]) ?? DEFAULT_TIMEOUTS.request,
+    methods,
+    availabilityCheck: parseTimeout(env[TIMEOUT_ENV.availabilityCheck]) ?? DEFAULT_TIMEOUTS.availabilityCheck,
+  };
+}
+
+// A timeout together with the name of the budget it came from
+interface TimeoutBudget {
+  timeout: number;
+  budget: string;
+}
+
+function timeoutError(what: string, { timeout, budget }: TimeoutBudget): Error {
+  return new Error(`Request timeout: ${what} took longer than ${timeout}ms, the ${budget}`);
+}
+
+// Abort signal and timeout override of the tool call the current operation runs
+// for. Kept per async context rather than per client, since concurrent calls share
+// a client.
+interface CallContext {
+  signal?: AbortSignal;
+  timeout?: number;
+}
+
+const callScope = new AsyncLocalStorage<CallContext>();
+
+/**
+ * Run an operation so that the requests it sends, the diagnostics it waits for and
+ * the processes it spawns are cancelled when the signal aborts.
+ */
+export function withCancellation<T>(signal: AbortSignal | undefined, operation: () => Promise<T>): Promise<T> {
+  return signal ? callScope.run({ ...callScope.getStore(), signal }, operation) : operation();
+}
+
+/**
+ * Run an operation with every request it sends limited to the given timeout,
+ * instead of the configured budgets.
+ */
+export function withRequestTimeout<T>(timeout: number | undefined, operation: () => Promise<T>): Promise<T> {
+  return timeout ? callScope.run({ ...callScope.getStore(), timeout }, operation) : operation();
+}
+
+function cancelledError(what: string): Error {
+  return new Error(`Request cancelled: ${what}`);
+}
+
+// Handles a request the server sends to the client; the value it returns is the response
+export type ServerRequestHandler<P = unknown> = (params: P) => unknown;
+
+// JSON-RPC error codes used in responses to and from the server
+const LSP_ERROR_CODES = {
+  methodNotFound: -32601,
+  internalError: -32603,
+} as const;
+
+// An error response from the server, as opposed to a timeout or cancellation on our side
+class ResponseError extends Error {
+  constructor(message: string, readonly code: number) {
+    super(message);
+  }
+}
+
+// The server does not implement the request, e.g. an older version
+function isMethodNotFound(error: unknown): boolean {
+  return error instanceof ResponseError && error.code === LSP_ERROR_CODES.methodNotFound;
+}
+
+// File change types for workspace/didChangeWatchedFiles
+const FILE_CHANGE_TYPES = {
+  created: 1,
+  changed: 2,
+  deleted: 3,
+} as const;
+
+// Structural file operation recorded while simulating a WorkspaceEdit
+type FileOperationStep =
+  | { type: 'create'; path: string }
+  | { type: 'rename'; from: string; to: string }
+  | { type: 'delete'; path: string };
+
+// In-memory result of a WorkspaceEdit, computed before anything touches disk
+interface EditSimulation {
+  contents: Map<string, string | null>;
+  origins: Map<string, string>;
+  moves: { from: string; to: string }[];
+  removedDirectories: string[];
+  steps: FileOperationStep[];
+}
+
 // LSP Client implementation
 export class TypeScriptLSPClient extends EventEmitter {
   private process: ChildProcess | null = null;
-  private requestId: number = 0;
-  private pendingRequests: Map<number | string, { resolve: (value: unknown) => void; reject: (reason?: unknown) => void }> = new Map();
-  private buffer: string = '';
-  private initialized: boolean = false;
+  private requestId = 0;
+  private pendingRequests: Map<number | string, { method: string; resolve: (value: unknown) => void; reject: (reason?: unknown) => void }> = new Map();
+  private buffer: Buffer = Buffer.alloc(0);
+  private initialized = false;
   private workspaceRoot: string;
   private tempDir?: string;
-  private openDocuments: Set<string> = new Set();
-
-  constructor(workspaceRoot: string) {
+  private openDocuments: Map<string, OpenDocument> = new Map();
+  private syncQueue: Promise<void> = Promise.resolve();
+  private captureQueue: Promise<void> = Promise.resolve();
+  private contentOverrides: Set<string> = new Set();
+  private requestHandlers: Map<string, ServerRequestHandler> = new Map();
+  private progress: Map<number | string, ProgressTask> = new Map();
+  private projectAnchors?: Promise<string[]>;
+  private projectsOpened?: Promise<void>;
+  private diagnostics: Map<string, { diagnostics: Diagnostic[]; publishedAt: number }> = new Map();
+  private startedAt = 0;
+  private crashCount = 0;
+  private crash?: ServerCrash;
+  private restarting?: Promise<void>;
+  private timeouts: TimeoutConfig;
+  // Set once the server has answered a request, which means the project has loaded
+  private projectLoaded = false;
+
+  constructor(workspaceRoot: string, timeouts: TimeoutConfig = timeoutsFromEnv()) {
     super();
+    this.timeouts = timeouts;
     // Extract real workspace root from isolated identifier (removes #typescript-lsp suffix)
     this.workspaceRoot = workspaceRoot.includes('#') ? workspaceRoot.split('#')[0] : workspaceRoot;
+
+    // Keep the latest published diagnostics for every open document. The server
+    // publishes an empty list when a document closes, which we don't want to keep.
+    // Documents are keyed by the URIs built here, which may encode differently from the server's
+    this.on('textDocument/publishDiagnostics', (params: PublishDiagnosticsParams) => {
+      const uri = pathToUri(uriToPath(params.uri));
+      if (this.openDocuments.has(uri)) {
+        this.diagnostics.set(uri, { diagnostics: params.diagnostics, publishedAt: Date.now() });
+      }
+    });
+
+    // Track the work the server reports progress for, which includes loading projects
+    this.on('$/progress', (params: ProgressParams) => this.updateProgress(params));
+
+    this.registerDefaultRequestHandlers();
+  }
+
+  /**
+   * Answers for the requests tsserver and typescript-language-server send. Anything
+   * not registered here or through setRequestHandler gets a MethodNotFound error.
+   */
+  private registerDefaultRequestHandlers(): void {
+    // No client-side settings, so every requested section is unset
+    this.setRequestHandler('workspace/configuration', (params: { items: unknown[] }) => params.items.map(() => null));
+    this.setRequestHandler('workspace/workspaceFolders', () => [{ uri: pathToUri(this.workspaceRoot), name: 'workspace' }]);
+    // A progress starts with this request, so the work counts as pending from here on
+    this.setRequestHandler('window/workDoneProgress/create', (params: { token: number | string }) => {
+      this.progress.set(params.token, { startedAt: Date.now() });
+      return null;
+    });
+    // Capability registrations only need acknowledging
+    this.setRequestHandler('client/registerCapability', () => null);
+    this.setRequestHandler('client/unregisterCapability', () => null);
+    // Nobody is there to pick an action
+    this.setRequestHandler('window/showMessageRequest', () => null);
+    this.setRequestHandler('workspace/applyEdit', async (params: ApplyWorkspaceEditParams) => {
+      try {
+        await this.applyWorkspaceEdit(params.edit);
+        return { applied: true };
+      } catch (error) {
+        return { applied: false, failureReason: error instanceof Error ? error.message : String(error) };
+      }
+    });
+    // Sent after a refactoring to start renaming the symbol it introduced, which only
+    // matters while edits are captured
+    this.setRequestHandler('_typescript.rename', () => null);
+  }
+
+  private updateProgress({ token, value }: ProgressParams): void {
+    if (value.kind === 'end') {
+      this.progress.delete(token);
+      return;
+    }
+
+    const task = this.progress.get(token) ?? { startedAt: Date.now() };
+    this.progress.set(token, {
+      ...task,
+      title: value.title ?? task.title,
+      message: value.message ?? task.message,
+      percentage: value.percentage ?? task.percentage,
+    });
+  }
+
+  /**
+   * Describe whether the server can answer workspace-wide queries, such as
+   * "not ready: Initializing JS/TS language features… (4s so far)".
+   */
+  getReadiness(): string {
+    if (this.crash) {
+      return `crashed (${this.crash.reason})`;
+    }
+    if (!this.initialized) {
+      return 'starting';
+    }
+    if (this.progress.size > 0) {
+      return `not ready: ${Array.from(this.progress.values(), describeProgress).join('; ')}`;
+    }
+    return this.projectLoaded ? 'ready' : 'ready, no project loaded yet';
+  }
+
+  /**
+   * Wait until the server has loaded the workspace's projects, so workspace-wide
+   * queries such as workspace/symbol cover every file. The first call opens one
+   * file of each project, which makes the server load it. Fails once loading takes
+   * longer than the project load budget.
+   */
+  async waitUntilReady(): Promise<void> {
+    if (!this.projectsOpened) {
+      // Shared by every caller, so one call's cancellation must not abort it
+      this.projectsOpened = callScope.exit(() => this.openProjects()).catch((error) => {
+        this.projectAnchors = undefined;
+        this.projectsOpened = undefined;
+        throw error;
+      });
+    }
+    await this.projectsOpened;
+
+    const override = callScope.getStore()?.timeout;
+    const budget = override !== undefined
+      ? { timeout: override, budget: 'timeoutMs of this call' }
+      : { timeout: this.timeouts.projectLoad, budget: `project load budget (${TIMEOUT_ENV.projectLoad})` };
+    const signal = callScope.getStore()?.signal;
+    const deadline = Date.now() + budget.timeout;
+
+    while (this.progress.size > 0) {
+      if (signal?.aborted) {
+        throw cancelledError('waiting for the project to load');
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw timeoutError('waiting for the project to load', budget);
+      }
+
+      // Check again after every progress update
+      await new Promise<void>((resolve) => {
+        const wake = () => {
+          clearTimeout(timer);
+          this.off('$/progress', wake);
+          signal?.removeEventListener('abort', wake);
+          resolve();
+        };
+        const timer = setTimeout(wake, remaining);
+        this.on('$/progress', wake);
+        signal?.addEventListener('abort', wake, { once: true });
+      });
+    }
+  }
+
+  private async openProjects(): Promise<void> {
+    const anchors = await (this.projectAnchors ?? findProjectAnchors(this.workspaceRoot));
+    for (const anchor of anchors) {
+      await this.ensureDocumentOpen(anchor);
+    }
+
+    // The server loads a project while handling the open of one of its files, so
+    // once a request sent after the opens is answered, any loading is reporting progress
+    const last = anchors[anchors.length - 1];
+    if (last) {
+      await this.sendRequest('textDocument/documentSymbol', { textDocument: { uri: pathToUri(last) } });
+    }
+  }
+
+  /**
+   * Handle a request method the server sends, replacing the current handler.
+   * Returns a function that restores the previous handler, so an operation can
+   * take over a request while it runs.
+   */
+  setRequestHandler<P>(method: string, handler: ServerRequestHandler<P>): () => void {
+    const previous = this.requestHandlers.get(method);
+    this.requestHandlers.set(method, handler as ServerRequestHandler);
+    return () => {
+      if (previous) {
+        this.requestHandlers.set(method, previous);
+      } else {
+        this.requestHandlers.delete(method);
+      }
+    };
   }
 
   async initialize(): Promise<void> {
@@ -138,6 +934,18 @@ export class TypeScriptLSPClient extends EventEmitter {
       return;
     }
 
+    // The server is shared by every tool call, so cancelling the call that happens
+    // to start it must not abort the startup
+    if (callScope.getStore()) {
+      return callScope.exit(() => this.initialize());
+    }
+
+    // Find the files that make the server load each project while it starts up
+    this.projectAnchors = findProjectAnchors(this.workspaceRoot);
+    this.projectAnchors.catch(() => {
+      // Reported by the first call that waits for the projects
+    });
+
     // Create a temporary directory for TypeScript server's internal use
     this.tempDir = join(tmpdir(), `typescript-lsp-${randomUUID()}`);
     await mkdir(this.tempDir, { recursive: true });
@@ -160,9 +968,9 @@ export class TypeScriptLSPClient extends EventEmitter {
     const startupPromise = new Promise<void>((resolve, reject) => {
       const timeout = setTimeout(() => {
         if (!processStarted) {
-          reject(new Error('TypeScript Language Server startup timeout'));
+          reject(new Error(`TypeScript Language Server startup timeout: the process did not start within the spawn budget of ${this.timeouts.spawn}ms (${TIMEOUT_ENV.spawn})`));
         }
-      }, 5000);
+      }, this.timeouts.spawn);
 
       this.process?.on('spawn', () => {
         processStarted = true;
@@ -181,7 +989,7 @@ export class TypeScriptLSPClient extends EventEmitter {
 
     // Handle stdout (LSP messages)
     this.process.stdout.on('data', (data: Buffer) => {
-      this.buffer += data.toString();
+      this.buffer = Buffer.concat([this.buffer, data]);
       this.processBuffer();
     });
 
@@ -190,14 +998,25 @@ export class TypeScriptLSPClient extends EventEmitter {
       // Currently not logging stderr, but keeping handler for LSP protocol compliance
     });
 
-    // Handle process exit
-    this.process.on('exit', (_code) => {
-      this.cleanup();
+    // Handle process exit. Exits after cleanup started or a restart replaced the
+    // process are expected; any other exit is a crash.
+    const child = this.process;
+    child.on('exit', (code, signal) => {
+      if (this.process === child) {
+        this.handleCrash(code, signal);
+      }
     });
 
+    // A write racing the process exit fails with EPIPE, which the exit handler reports
+    child.stdin?.on('error', () => {});
+
     // Send initialize request with timeout
+    let initTimer: NodeJS.Timeout | undefined;
     const initTimeout = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('LSP initialize request timeout')), 10000);
+      initTimer = setTimeout(() => reject(timeoutError('initialize', {
+        timeout: this.timeouts.initialize,
+        budget: `initialize budget (${TIMEOUT_ENV.initialize})`,
+      })), this.timeouts.initialize);
     });
 
     const initRequest = this.sendRequest('initialize', {
@@ -208,9 +1027,22 @@ export class TypeScriptLSPClient extends EventEmitter {
       },
       locale: 'en',
       rootPath: this.workspaceRoot,
-      rootUri: `file://${this.workspaceRoot}`,
+      rootUri: pathToUri(this.workspaceRoot),
       capabilities: {
         workspace: {
+          applyEdit: true,
+          fileOperations: {
+            dynamicRegistration: false,
+            willRename: true,
+            didRename: true,
+          },
+          didChangeWatchedFiles: {
+            dynamicRegistration: false,
+          },
+          workspaceEdit: {
+            documentChanges: true,
+            resourceOperations: ['create', 'rename', 'delete'],
+          },
           symbol: {
             dynamicRegistration: false,
           },
@@ -221,6 +1053,9 @@ export class TypeScriptLSPClient extends EventEmitter {
             dynamicRegistration: false,
           },
         },
+        window: {
+          workDoneProgress: true,
+        },
         textDocument: {
           synchronization: {
             dynamicRegistration: false,
@@ -243,6 +1078,19 @@ export class TypeScriptLSPClient extends EventEmitter {
           references: {
             dynamicRegistration: false,
           },
+          documentHighlight: {
+            dynamicRegistration: false,
+          },
+          formatting: {
+            dynamicRegistration: false,
+          },
+          rangeFormatting: {
+            dynamicRegistration: false,
+          },
+          rename: {
+            dynamicRegistration: false,
+            prepareSupport: true,
+          },
           hover: {
             dynamicRegistration: false,
             contentFormat: ['markdown', 'plaintext'],
@@ -255,6 +1103,14 @@ export class TypeScriptLSPClient extends EventEmitter {
             dynamicRegistration: false,
             completionItem: {
               snippetSupport: true,
+              documentationFormat: ['markdown', 'plaintext'],
+              deprecatedSupport: true,
+              tagSupport: {
+                valueSet: [1],
+              },
+              resolveSupport: {
+                properties: ['detail', 'documentation', 'additionalTextEdits'],
+              },
             },
           },
           signatureHelp: {
@@ -265,13 +1121,27 @@ export class TypeScriptLSPClient extends EventEmitter {
             codeActionLiteralSupport: {
               codeActionKind: {
                 valueSet: [
+                  'quickfix',
+                  'refactor',
+                  'refactor.extract',
+                  'refactor.inline',
+                  'refactor.move',
+                  'refactor.rewrite',
                   'source.organizeImports.ts',
                   'source.removeUnused.ts',
+                  'source.removeUnusedImports.ts',
+                  'source.sortImports.ts',
                   'source.addMissingImports.ts',
                   'source.fixAll.ts',
                 ],
               },
             },
+            isPreferredSupport: true,
+            disabledSupport: true,
+            dataSupport: true,
+            resolveSupport: {
+              properties: ['edit'],
+            },
           },
           publishDiagnostics: {
             relatedInformation: true,
@@ -304,18 +1174,134 @@ export class TypeScriptLSPClient extends EventEmitter {
       },
       workspaceFolders: [
         {
-          uri: `file://${this.workspaceRoot}`,
+          uri: pathToUri(this.workspaceRoot),
           name: 'workspace',
         },
       ],
     });
 
-    await Promise.race([initRequest, initTimeout]);
+    try {
+      await Promise.race([initRequest, initTimeout]);
+    } finally {
+      clearTimeout(initTimer);
+    }
 
     // Send initialized notification
     await this.sendNotification('initialized', {});
 
     this.initialized = true;
+    this.projectLoaded = false;
+    this.projectsOpened = undefined;
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * The timeout for a request: the override of the current tool call if it has
+   * one, otherwise the configured budget for the method, raised to the project
+   * load budget while the project may still be loading.
+   */
+  private requestBudget(method: string): TimeoutBudget {
+    const override = callScope.getStore()?.timeout;
+    if (override !== undefined) {
+      return { timeout: override, budget: 'timeoutMs of this call' };
+    }
+
+    const methodTimeout = this.timeouts.methods[method];
+    const budget = methodTimeout !== undefined
+      ? { timeout: methodTimeout, budget: `${method} budget (${TIMEOUT_ENV.methods})` }
+      : { timeout: this.timeouts.request, budget: `request budget (${TIMEOUT_ENV.request})` };
+
+    if (!this.projectLoaded && this.timeouts.projectLoad > budget.timeout) {
+      return { timeout: this.timeouts.projectLoad, budget: `project load budget (${TIMEOUT_ENV.projectLoad})` };
+    }
+    return budget;
+  }
+
+  /**
+   * Record an unexpected server exit. Requests waiting on the dead process are
+   * rejected, and the open documents are remembered so restart() can reopen them.
+   */
+  private handleCrash(code: number | null, signal: NodeJS.Signals | null): void {
+    const now = Date.now();
+    const uptime = now - this.startedAt;
+    const documents = Array.from(this.openDocuments, ([uri, document]) => ({
+      path: uriToPath(uri),
+      override: this.contentOverrides.has(uri) ? document.content : undefined,
+    }));
+    // A server that stayed up long enough starts a new run of crashes
+    this.crashCount = (uptime < STABLE_SERVER_UPTIME ? this.crashCount : 0) + 1;
+    this.crash = {
+      exitedAt: now,
+      reason: signal ? `signal ${signal}` : `exit code ${code}`,
+      // A crash during a restart still owes the documents of the original one
+      documents: this.crash?.documents ?? documents,
+    };
+
+    const reason = this.crash.reason;
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(new Error(`TypeScript Language Server restarted: it exited (${reason}) while handling ${pending.method}. Retry the request.`));
+    }
+
+    this.process = null;
+    this.buffer = Buffer.alloc(0);
+    void this.cleanup();
+  }
+
+  /**
+   * Details of the last crash while the server is down after one, or undefined
+   * while it is running or was shut down normally.
+   */
+  getCrash(): { count: number; exitedAt: number; reason: string } | undefined {
+    if (!this.crash) {
+      return undefined;
+    }
+    const { exitedAt, reason } = this.crash;
+    return { count: this.crashCount, exitedAt, reason };
+  }
+
+  /**
+   * Start a fresh server after a crash and reopen the documents that were open,
+   * including any active content overrides. Concurrent callers share one restart.
+   * A failed restart counts as another crash.
+   */
+  async restart(): Promise<void> {
+    if (!this.restarting) {
+      this.restarting = this.restartServer().finally(() => {
+        this.restarting = undefined;
+      });
+    }
+    return this.restarting;
+  }
+
+  private async restartServer(): Promise<void> {
+    const crash = this.crash;
+    if (!crash) {
+      return;
+    }
+
+    try {
+      await this.initialize();
+    } catch (error) {
+      await this.cleanup();
+      // An exit during startup was already recorded as a crash
+      if (this.crash === crash) {
+        this.crashCount++;
+        this.crash = { ...crash, exitedAt: Date.now() };
+      }
+      throw new Error(`Failed to restart TypeScript Language Server: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.crash = undefined;
+    for (const document of crash.documents) {
+      try {
+        await this.ensureDocumentOpen(document.path);
+        if (document.override !== undefined) {
+          await this.updateDocument(document.path, document.override);
+        }
+      } catch (_error) {
+        // Documents that can no longer be read stay closed
+      }
+    }
   }
 
   async openDocument(filePath: string): Promise<void> {
@@ -323,16 +1309,16 @@ export class TypeScriptLSPClient extends EventEmitter {
       throw new Error('TypeScript Language Server not initialized');
     }
 
-    const uri = `file://${filePath}`;
+    const uri = pathToUri(filePath);
     if (this.openDocuments.has(uri)) {
       return; // Document already open
     }
 
     try {
       // Read file content
-      const { readFile } = await import('node:fs/promises');
+      const { mtimeMs, size } = await stat(filePath);
       const content = await readFile(filePath, 'utf-8');
-      
+
       // Determine language ID based on file extension
       let languageId = 'typescript';
       if (filePath.endsWith('.js') || filePath.endsWith('.jsx')) {
@@ -344,6 +1330,7 @@ export class TypeScriptLSPClient extends EventEmitter {
       }
 
       // Send textDocument/didOpen notification
+      this.diagnostics.delete(uri);
       await this.sendNotification('textDocument/didOpen', {
         textDocument: {
           uri,
@@ -353,7 +1340,7 @@ export class TypeScriptLSPClient extends EventEmitter {
         },
       });
 
-      this.openDocuments.add(uri);
+      this.openDocuments.set(uri, { version: 1, content, mtimeMs, size });
     } catch (error) {
       throw new Error(`Failed to open document ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -364,7 +1351,7 @@ export class TypeScriptLSPClient extends EventEmitter {
       return;
     }
 
-    const uri = `file://${filePath}`;
+    const uri = pathToUri(filePath);
     if (!this.openDocuments.has(uri)) {
       return; // Document not open
     }
@@ -374,11 +1361,156 @@ export class TypeScriptLSPClient extends EventEmitter {
     });
 
     this.openDocuments.delete(uri);
+    this.diagnostics.delete(uri);
+  }
+
+  /**
+   * Replace the server's copy of an open document with new content, sending
+   * only the changed region as an incremental didChange.
+   */
+  async updateDocument(filePath: string, content: string): Promise<void> {
+    const uri = pathToUri(filePath);
+    const document = this.openDocuments.get(uri);
+    if (!document) {
+      return; // Document not open, the server reads it from disk
+    }
+
+    // Remember the disk state the new content corresponds to
+    const { mtimeMs, size } = await stat(filePath).catch(() => ({ mtimeMs: document.mtimeMs, size: document.size }));
+    const previous = document.content;
+    const version = previous === content ? document.version : document.version + 1;
+    this.openDocuments.set(uri, { ...document, version, content, mtimeMs, size });
+    if (previous === content) {
+      return;
+    }
+
+    this.diagnostics.delete(uri);
+    await this.sendNotification('textDocument/didChange', {
+      textDocument: { uri, version },
+      contentChanges: [computeContentChange(previous, content)],
+    });
+  }
+
+  /**
+   * Bring the server's copy of an open document up to date with the file on disk.
+   * The modification time and size are checked first so unchanged files are not read.
+   */
+  async syncDocument(filePath: string): Promise<void> {
+    const uri = pathToUri(filePath);
+    const document = this.openDocuments.get(uri);
+    if (!document || this.contentOverrides.has(uri)) {
+      return;
+    }
+
+    let stats: { mtimeMs: number; size: number };
+    try {
+      stats = await stat(filePath);
+    } catch (_error) {
+      if (!document.missing) {
+        // Deleted since it was opened
+        await this.closeDocument(filePath);
+        await this.notifyFileChanges([{ path: filePath, type: 'deleted' }]);
+      }
+      return;
+    }
+
+    if (!document.missing && stats.mtimeMs === document.mtimeMs && stats.size === document.size) {
+      return;
+    }
+
+    const content = await readFileOrNull(filePath);
+    if (content === null) {
+      return;
+    }
+
+    if (document.missing) {
+      this.openDocuments.set(uri, { ...document, missing: false });
+      await this.notifyFileChanges([{ path: filePath, type: 'created' }]);
+    }
+    await this.updateDocument(filePath, content);
+  }
+
+  /**
+   * Sync every open document with disk. Syncs are queued so concurrent requests
+   * never send overlapping versions.
+   */
+  async syncOpenDocuments(): Promise<void> {
+    const sync = this.syncQueue.then(async () => {
+      for (const uri of Array.from(this.openDocuments.keys())) {
+        await this.syncDocument(uriToPath(uri));
+      }
+    });
+    this.syncQueue = sync.catch(() => {});
+    return sync;
+  }
+
+  /**
+   * Run an operation with the server seeing the given content for a file instead
+   * of what is on disk, then restore the disk state. Lets callers query unsaved
+   * content without writing it.
+   */
+  async withContentOverride<T>(filePath: string, content: string, operation: () => Promise<T>): Promise<T> {
+    const uri = pathToUri(filePath);
+    if (this.contentOverrides.has(uri)) {
+      throw new Error(`A content override is already active for ${filePath}`);
+    }
+
+    const wasOpen = this.openDocuments.has(uri);
+    await this.ensureDocumentOpen(filePath);
+    await this.updateDocument(filePath, content);
+    this.contentOverrides.add(uri);
+
+    try {
+      return await operation();
+    } finally {
+      this.contentOverrides.delete(uri);
+      const diskContent = await readFileOrNull(filePath);
+      if (!wasOpen || diskContent === null) {
+        await this.closeDocument(filePath);
+      } else {
+        await this.updateDocument(filePath, diskContent);
+      }
+    }
+  }
+
+  /**
+   * Read a document as the server sees it, which differs from disk while a
+   * content override is active.
+   */
+  async readDocument(filePath: string): Promise<string> {
+    const uri = pathToUri(filePath);
+    if (this.contentOverrides.has(uri)) {
+      return this.openDocuments.get(uri)?.content ?? '';
+    }
+    return readFile(filePath, 'utf-8');
+  }
+
+  /**
+   * Tell the server about files created, changed or deleted outside of open documents.
+   */
+  async notifyFileChanges(changes: { path: string; type: keyof typeof FILE_CHANGE_TYPES }[]): Promise<void> {
+    if (!this.initialized || changes.length === 0) {
+      return;
+    }
+
+    await this.sendNotification('workspace/didChangeWatchedFiles', {
+      changes: changes.map(change => ({ uri: pathToUri(change.path), type: FILE_CHANGE_TYPES[change.type] })),
+    });
+  }
+
+  getWorkspaceRoot(): string {
+    return this.workspaceRoot;
+  }
+
+  isDocumentOpen(filePath: string): boolean {
+    return this.openDocuments.has(pathToUri(filePath));
   }
 
   async ensureDocumentOpen(filePath: string): Promise<void> {
-    const uri = `file://${filePath}`;
-    if (!this.openDocuments.has(uri)) {
+    const uri = pathToUri(filePath);
+    if (this.openDocuments.has(uri)) {
+      await this.syncDocument(filePath);
+    } else {
       try {
         await this.openDocument(filePath);
       } catch (error) {
@@ -393,7 +1525,7 @@ export class TypeScriptLSPClient extends EventEmitter {
               text: '// File not found\n',
             },
           });
-          this.openDocuments.add(uri);
+          this.openDocuments.set(uri, { version: 1, content: '// File not found\n', mtimeMs: 0, size: 0, missing: true });
         } else {
           throw error;
         }
@@ -401,53 +1533,268 @@ export class TypeScriptLSPClient extends EventEmitter {
     }
   }
 
+  /**
+   * Wait until the server has published diagnostics for a document and the
+   * stream has settled. tsserver reports syntactic, semantic and suggestion
+   * diagnostics separately, so we keep listening until no further update
+   * arrives within the settle window.
+   */
+  async waitForDiagnostics(filePath: string, timeout = 10000, settleTime = 500): Promise<Diagnostic[]> {
+    const uri = pathToUri(resolve(filePath));
+    const signal = callScope.getStore()?.signal;
+    if (signal?.aborted) {
+      throw cancelledError(`diagnostics for ${filePath}`);
+    }
+
+    return new Promise((resolve, reject) => {
+      let settleTimer: NodeJS.Timeout | undefined;
+
+      const stop = () => {
+        clearTimeout(settleTimer);
+        clearTimeout(timeoutTimer);
+        this.off('textDocument/publishDiagnostics', onPublish);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const finish = () => {
+        stop();
+        resolve(this.diagnostics.get(uri)?.diagnostics ?? []);
+      };
+
+      const onAbort = () => {
+        stop();
+        reject(cancelledError(`diagnostics for ${filePath}`));
+      };
+
+      const scheduleSettle = (delay: number) => {
+        clearTimeout(settleTimer);
+        settleTimer = setTimeout(finish, delay);
+      };
+
+      const onPublish = (params: PublishDiagnosticsParams) => {
+        if (pathToUri(uriToPath(params.uri)) === uri) {
+          scheduleSettle(settleTime);
+        }
+      };
+
+      const timeoutTimer = setTimeout(finish, timeout);
+      this.on('textDocument/publishDiagnostics', onPublish);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Diagnostics published earlier only need the remainder of the settle window
+      const existing = this.diagnostics.get(uri);
+      if (existing) {
+        scheduleSettle(Math.max(0, settleTime - (Date.now() - existing.publishedAt)));
+      }
+    });
+  }
+
   private processBuffer(): void {
     while (true) {
-      // Look for Content-Length header
-      const headerMatch = this.buffer.match(/Content-Length: (\d+)\r\n\r\n/);
-      if (!headerMatch) {
+      // Content-Length counts bytes, so the buffer is kept as raw bytes until a
+      // complete message is available
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) {
         break;
       }
 
-      const contentLength = parseInt(headerMatch[1], 10);
-      const headerLength = headerMatch[0].length;
-      const totalLength = headerLength + contentLength;
+      const headerText = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const headerLength = headerEnd + 4;
+      const header = parseMessageHeader(headerText);
+      if (!header) {
+        // Without a length the content cannot be delimited, so skip to the next header
+        this.logProtocolError(`Dropped message header without a valid Content-Length: ${JSON.stringify(headerText)}`);
+        this.buffer = this.buffer.subarray(headerLength);
+        continue;
+      }
+      for (const line of header.malformedLines) {
+        this.logProtocolError(`Ignored malformed header line: ${JSON.stringify(line)}`);
+      }
 
+      const totalLength = headerLength + header.contentLength;
       if (this.buffer.length < totalLength) {
         break; // Not enough data yet
       }
 
-      // Extract the message
-      const messageStr = this.buffer.slice(headerLength, totalLength);
-      this.buffer = this.buffer.slice(totalLength);
+      const content = this.buffer.subarray(headerLength, totalLength);
+      this.buffer = this.buffer.subarray(totalLength);
+
+      let message: Message;
+      try {
+        message = JSON.parse(new TextDecoder(header.charset, { fatal: true }).decode(content));
+      } catch (error) {
+        const preview = content.subarray(0, 200).toString('utf-8');
+        this.logProtocolError(`Dropped malformed message (${error instanceof Error ? error.message : String(error)}): ${preview}`);
+        continue;
+      }
 
       try {
-        const message: Message = JSON.parse(messageStr);
         this.handleMessage(message);
-      } catch (_error) {
-        // Ignore JSON parsing errors for malformed LSP messages
+      } catch (error) {
+        this.logProtocolError(`Failed to handle ${message.method ?? `response ${message.id}`}: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
   }
 
+  // stdout carries the MCP protocol, so problems with the server's output are logged to stderr
+  private logProtocolError(message: string): void {
+    console.error(`[typescript-lsp] ${this.workspaceRoot}: ${message}`);
+  }
+
   private handleMessage(message: Message): void {
-    if (message.id !== undefined && (message.result !== undefined || message.error !== undefined)) {
+    if (message.method === undefined) {
       // Response to a request
-      const pending = this.pendingRequests.get(message.id);
-      if (pending) {
+      const pending = message.id !== undefined ? this.pendingRequests.get(message.id) : undefined;
+      if (pending && message.id !== undefined) {
         this.pendingRequests.delete(message.id);
         if (message.error) {
-          pending.reject(new Error(message.error.message));
+          pending.reject(new ResponseError(message.error.message, message.error.code));
         } else {
           pending.resolve(message.result);
         }
       }
-    } else if (message.method) {
-      // Notification or request from server
+    } else if (message.id !== undefined) {
+      // Request from server that needs a response
+      void this.handleServerRequest(message.id, message.method, message.params);
+    } else {
+      // Notification from server
       this.emit(message.method, message.params);
     }
   }
 
+  private async handleServerRequest(id: number | string, method: string, params: unknown): Promise<void> {
+    const handler = this.requestHandlers.get(method);
+    if (!handler) {
+      this.sendResponse(id, { error: { code: LSP_ERROR_CODES.methodNotFound, message: `Unhandled method ${method}` } });
+      return;
+    }
+
+    try {
+      this.sendResponse(id, { result: (await handler(params)) ?? null });
+    } catch (error) {
+      this.sendResponse(id, {
+        error: { code: LSP_ERROR_CODES.internalError, message: error instanceof Error ? error.message : String(error) },
+      });
+    }
+  }
+
+  private sendResponse(id: number | string, response: Pick<Message, 'result' | 'error'>): void {
+    try {
+      this.sendMessage({ jsonrpc: '2.0', id, ...response });
+    } catch (_error) {
+      // Server exited before the response could be delivered
+    }
+  }
+
+  /**
+   * Run an operation that makes the server send workspace/applyEdit requests
+   * (such as executing a code action command) and collect those edits instead
+   * of applying them, so they can be previewed. Rename locations the server
+   * requests after a refactoring are collected as well.
+   *
+   * Captures run one at a time: the server's requests do not say which command
+   * they belong to, and overlapping captures would restore each other's handlers.
+   */
+  captureServerEdits<T>(operation: () => Promise<T>): Promise<{
+    result: T;
+    edits: WorkspaceEdit[];
+    renameLocations: TextDocumentPositionParams[];
+  }> {
+    const capture = this.captureQueue.then(() => this.runCapture(operation));
+    this.captureQueue = capture.then(() => {}, () => {});
+    return capture;
+  }
+
+  private async runCapture<T>(operation: () => Promise<T>): Promise<{
+    result: T;
+    edits: WorkspaceEdit[];
+    renameLocations: TextDocumentPositionParams[];
+  }> {
+    const capture: { edits: WorkspaceEdit[]; renameLocations: TextDocumentPositionParams[] } = { edits: [], renameLocations: [] };
+    const restoreHandlers = [
+      // The caller takes over applying the edit, so the server carries on as if it was applied
+      this.setRequestHandler('workspace/applyEdit', (params: ApplyWorkspaceEditParams) => {
+        capture.edits.push(params.edit);
+        return { applied: true };
+      }),
+      this.setRequestHandler('_typescript.rename', (params: TextDocumentPositionParams) => {
+        capture.renameLocations.push(params);
+        return null;
+      }),
+    ];
+    try {
+      const result = await operation();
+      return { result, ...capture };
+    } finally {
+      for (const restore of restoreHandlers) {
+        restore();
+      }
+    }
+  }
+
+  /**
+   * Apply a WorkspaceEdit to disk. The whole edit is simulated in memory first so
+   * invalid edits fail before any file is touched, and a failure while writing
+   * rolls back the changes already made. Open documents are then synced with the
+   * server. In dry-run mode only the diff is computed.
+   */
+  async applyWorkspaceEdit(edit: WorkspaceEdit, options: { dryRun?: boolean } = {}): Promise<WorkspaceEditResult> {
+    // Overridden documents are edited from their in-memory content rather than disk
+    const readOriginal = (path: string) => this.contentOverrides.has(pathToUri(path))
+      ? Promise.resolve(this.openDocuments.get(pathToUri(path))?.content ?? null)
+      : readFileOrNull(path);
+
+    const simulation = await simulateWorkspaceEdit(edit, path => this.openDocuments.get(pathToUri(path))?.version, readOriginal);
+    const { files, diff } = await describeEditSimulation(simulation, readOriginal);
+
+    if (options.dryRun || files.length === 0) {
+      return { applied: false, files, diff };
+    }
+
+    const overridden = files.find(path => this.contentOverrides.has(pathToUri(path)));
+    if (overridden) {
+      throw new Error(`Cannot write edits to ${overridden} while its content is overridden; use dryRun to preview them`);
+    }
+
+    await commitEditSimulation(simulation, this.tempDir ?? tmpdir());
+
+    // Report structural changes and writes to files the server only knows from disk
+    const fileChanges: { path: string; type: keyof typeof FILE_CHANGE_TYPES }[] = [];
+    for (const step of simulation.steps) {
+      if (step.type === 'create') {
+        fileChanges.push({ path: step.path, type: 'created' });
+      } else if (step.type === 'rename') {
+        fileChanges.push({ path: step.from, type: 'deleted' }, { path: step.to, type: 'created' });
+      } else {
+        fileChanges.push({ path: step.path, type: 'deleted' });
+      }
+    }
+    for (const [path, content] of simulation.contents) {
+      if (content !== null && !this.isDocumentOpen(path) && !fileChanges.some(change => change.path === path)) {
+        fileChanges.push({ path, type: 'changed' });
+      }
+    }
+    await this.notifyFileChanges(fileChanges);
+
+    // Bring the server's copies of affected open documents up to date
+    for (const uri of Array.from(this.openDocuments.keys())) {
+      const path = uriToPath(uri);
+      const relocated = relocatePath(path, simulation.moves);
+      const content = simulation.contents.get(relocated);
+
+      if (relocated !== path || content === null || isInsideDirectory(relocated, simulation.removedDirectories)) {
+        await this.closeDocument(path);
+        if (relocated !== path && content !== null) {
+          await this.openDocument(relocated);
+        }
+      } else if (content !== undefined) {
+        await this.updateDocument(path, content);
+      }
+    }
+
+    return { applied: true, files, diff };
+  }
+
   private sendMessage(message: Message): void {
     if (!this.process || !this.process.stdin) {
       throw new Error('TypeScript Language Server not running');
@@ -458,7 +1805,17 @@ export class TypeScriptLSPClient extends EventEmitter {
     this.process.stdin.write(fullMessage);
   }
 
-  async sendRequest<T = unknown>(method: string, params: unknown): Promise<T> {
+  async sendRequest<T = unknown>(method: string, params: unknown, options: { signal?: AbortSignal } = {}): Promise<T> {
+    // Queries must not run against stale copies of files edited on disk
+    if (this.initialized && method !== 'shutdown') {
+      await this.syncOpenDocuments();
+    }
+
+    const signal = options.signal ?? callScope.getStore()?.signal;
+    if (signal?.aborted) {
+      throw cancelledError(method);
+    }
+
     const id = ++this.requestId;
     const message: Message = {
       jsonrpc: '2.0',
@@ -467,17 +1824,48 @@ export class TypeScriptLSPClient extends EventEmitter {
       params,
     };
 
-    return new Promise((resolve, reject) => {
-      this.pendingRequests.set(id, { resolve, reject });
-      this.sendMessage(message);
-
-      // Timeout after 10 seconds for better test experience
-      setTimeout(() => {
-        if (this.pendingRequests.has(id)) {
-          this.pendingRequests.delete(id);
-          reject(new Error(`Request timeout: ${method}`));
+    return new Promise<T>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      // Stop waiting and tell the server to drop the work, so abandoned requests
+      // do not keep tsserver busy
+      const abandon = (error: Error) => {
+        if (this.pendingRequests.delete(id)) {
+          settle();
+          this.sendNotification('$/cancelRequest', { id }).catch(() => {});
+          reject(error);
         }
-      }, 10000);
+      };
+      const onAbort = () => abandon(cancelledError(method));
+
+      const budget = this.requestBudget(method);
+      const timer = setTimeout(() => abandon(timeoutError(method, budget)), budget.timeout);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pendingRequests.set(id, {
+        method,
+        resolve: value => {
+          settle();
+          if (method !== 'initialize') {
+            this.projectLoaded = true;
+          }
+          resolve(value as T);
+        },
+        reject: reason => {
+          settle();
+          reject(reason);
+        },
+      });
+
+      try {
+        this.sendMessage(message);
+      } catch (error) {
+        this.pendingRequests.get(id)?.reject(error);
+        this.pendingRequests.delete(id);
+      }
     });
   }
 
@@ -498,11 +1886,16 @@ export class TypeScriptLSPClient extends EventEmitter {
   }
 
   async cleanup(): Promise<void> {
+    // A restart may create a new temp directory while this one is removed
+    const tempDir = this.tempDir;
+    this.tempDir = undefined;
     this.initialized = false;
     this.pendingRequests.clear();
+    this.diagnostics.clear();
+    this.progress.clear();
     
     // Close all open documents
-    for (const uri of this.openDocuments) {
+    for (const uri of this.openDocuments.keys()) {
       try {
         await this.sendNotification('textDocument/didClose', {
           textDocument: { uri },
@@ -518,9 +1911,9 @@ export class TypeScriptLSPClient extends EventEmitter {
       this.process = null;
     }
 
-    if (this.tempDir) {
+    if (tempDir) {
       try {
-        await rm(this.tempDir, { recursive: true });
+        await rm(tempDir, { recursive: true });
       } catch (_error) {
         // Ignore errors during temp directory cleanup
       }
@@ -536,98 +1929,420 @@ export class TypeScriptLSPClient extends EventEmitter {
         // Ignore errors during LSP shutdown
       }
     }
+    this.crash = undefined;
     await this.cleanup();
   }
 }
 
-// Workspace Manager
-export class TypeScriptWorkspaceManager {
-  private workspaces: Map<string, TypeScriptLSPClient> = new Map();
+// Combine several edits into one so they are simulated, previewed and applied together
+function mergeWorkspaceEdits(edits: WorkspaceEdit[]): WorkspaceEdit {
+  return {
+    documentChanges: edits.flatMap(edit => edit.documentChanges ?? Object.entries(edit.changes ?? {}).map(([uri, textEdits]) => ({
+      textDocument: { uri, version: null },
+      edits: textEdits,
+    }))),
+  };
+}
 
-  async getOrCreateWorkspace(path: string): Promise<TypeScriptLSPClient> {
-    const existing = this.workspaces.get(path);
-    if (existing) {
-      return existing;
-    }
+// The server percent-encodes file URIs, so paths with spaces, '#' or non-ASCII
+// characters only survive a proper conversion
+function pathToUri(path: string): string {
+  return pathToFileURL(path).href;
+}
 
-    const client = new TypeScriptLSPClient(path);
-    await client.initialize();
-    this.workspaces.set(path, client);
-    return client;
+// URIs with another scheme are left as they are, since they name no file on disk
+function uriToPath(uri: string): string {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
+
+function isInsideDirectory(path: string, directories: string[]): boolean {
+  return directories.some(dir => path === dir || path.startsWith(`${dir}/`));
+}
+
+// Follow recorded renames forward to find where a path ends up
+function relocatePath(path: string, moves: { from: string; to: string }[]): string {
+  let current = path;
+  for (const move of moves) {
+    if (current === move.from || current.startsWith(`${move.from}/`)) {
+      current = move.to + current.slice(move.from.length);
+    }
   }
+  return current;
+}
 
-  async closeWorkspace(path: string): Promise<void> {
-    const client = this.workspaces.get(path);
-    if (client) {
-      await client.shutdown();
-      this.workspaces.delete(path);
+// Follow recorded renames backwards to find where a path lives on disk today
+function originalPath(path: string, moves: { from: string; to: string }[]): string {
+  let current = path;
+  for (const move of [...moves].reverse()) {
+    if (current === move.to || current.startsWith(`${move.to}/`)) {
+      current = move.from + current.slice(move.to.length);
     }
   }
+  return current;
+}
 
-  async closeAll(): Promise<void> {
-    const promises = Array.from(this.workspaces.values()).map(client => client.shutdown());
-    await Promise.all(promises);
-    this.workspaces.clear();
+async function readFileOrNull(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return null;
   }
+}
 
-  async detectProjectType(path: string): Promise<'typescript' | 'javascript' | 'mixed'> {
-    // Simple heuristic to detect project type
-    try {
-      const hasTs = await new Promise<boolean>((resolve) => {
-        const proc = spawn('find', [path, '-name', '*.ts', '-o', '-name', '*.tsx'], {
-          stdio: ['ignore', 'pipe', 'ignore'],
-        });
-        
-        let hasFiles = false;
-        proc.stdout?.on('data', (data) => {
-          if (data.toString().trim()) {
-            hasFiles = true;
-          }
-        });
-        
-        proc.on('close', () => {
-          resolve(hasFiles);
-        });
-        
-        proc.on('error', () => {
-          resolve(false);
-        });
-      });
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
 
-      const hasJs = await new Promise<boolean>((resolve) => {
-        const proc = spawn('find', [path, '-name', '*.js', '-o', '-name', '*.jsx'], {
-          stdio: ['ignore', 'pipe', 'ignore'],
-        });
-        
-        let hasFiles = false;
-        proc.stdout?.on('data', (data) => {
-          if (data.toString().trim()) {
-            hasFiles = true;
-          }
-        });
-        
-        proc.on('close', () => {
-          resolve(hasFiles);
-        });
-        
-        proc.on('error', () => {
-          resolve(false);
-        });
-      });
+async function simulateWorkspaceEdit(
+  edit: WorkspaceEdit,
+  getOpenVersion: (path: string) => number | undefined,
+  readOriginal: (path: string) => Promise<string | null> = readFileOrNull
+): Promise<EditSimulation> {
+  const simulation: EditSimulation = {
+    contents: new Map(),
+    origins: new Map(),
+    moves: [],
+    removedDirectories: [],
+    steps: [],
+  };
 
-      if (hasTs && hasJs) return 'mixed';
-      if (hasTs) return 'typescript';
-      if (hasJs) return 'javascript';
-      return 'typescript'; // Default to TypeScript
-    } catch (_error) {
-      return 'typescript';
+  // documentChanges takes precedence over changes when a server sends both
+  const changes: DocumentChange[] = edit.documentChanges ?? Object.entries(edit.changes ?? {}).map(([uri, edits]) => ({
+    textDocument: { uri, version: null },
+    edits,
+  }));
+
+  const read = async (path: string): Promise<string | null> => {
+    if (simulation.contents.has(path)) {
+      return simulation.contents.get(path) ?? null;
     }
-  }
-}
+    if (isInsideDirectory(path, simulation.removedDirectories)) {
+      return null;
+    }
+    return readOriginal(originalPath(path, simulation.moves));
+  };
 
-// Symbol kinds mapping
-const SYMBOL_KINDS: { [key: number]: string } = {
-  1: 'File',
+  const exists = async (path: string): Promise<boolean> => {
+    if (simulation.contents.has(path) || isInsideDirectory(path, simulation.removedDirectories)) {
+      return simulation.contents.get(path) != null;
+    }
+    const diskPath = originalPath(path, simulation.moves);
+    return (await readOriginal(diskPath)) !== null || await isDirectory(diskPath);
+  };
+
+  const setContent = (path: string, content: string | null, origin?: string) => {
+    simulation.contents.set(path, content);
+    if (origin && !simulation.origins.has(path)) {
+      simulation.origins.set(path, origin);
+    }
+  };
+
+  for (const change of changes) {
+    if (!('kind' in change)) {
+      const path = uriToPath(change.textDocument.uri);
+      const openVersion = getOpenVersion(path);
+      if (change.textDocument.version !== null && openVersion !== undefined && change.textDocument.version !== openVersion) {
+        throw new Error(`Edit for ${path} targets version ${change.textDocument.version} but the open document is at version ${openVersion}`);
+      }
+
+      const content = await read(path);
+      if (content === null) {
+        throw new Error(`Cannot edit ${path}: file does not exist`);
+      }
+      setContent(path, applyTextEdits(content, change.edits), originalPath(path, simulation.moves));
+    } else if (change.kind === 'create') {
+      const path = uriToPath(change.uri);
+      if (await exists(path) && !change.options?.overwrite) {
+        if (change.options?.ignoreIfExists) continue;
+        throw new Error(`Cannot create ${path}: file already exists`);
+      }
+      setContent(path, '');
+      simulation.steps.push({ type: 'create', path });
+    } else if (change.kind === 'rename') {
+      const from = uriToPath(change.oldUri);
+      const to = uriToPath(change.newUri);
+      if (!await exists(from)) {
+        throw new Error(`Cannot rename ${from}: file does not exist`);
+      }
+      if (await exists(to) && !change.options?.overwrite) {
+        if (change.options?.ignoreIfExists) continue;
+        throw new Error(`Cannot rename ${from} to ${to}: target already exists`);
+      }
+
+      // Carry pending content along with the renamed file or directory
+      for (const [path, content] of Array.from(simulation.contents.entries())) {
+        if (path === from || path.startsWith(`${from}/`)) {
+          const target = to + path.slice(from.length);
+          setContent(target, content, simulation.origins.get(path) ?? path);
+          simulation.contents.set(path, null);
+        }
+      }
+      simulation.moves.push({ from, to });
+      simulation.steps.push({ type: 'rename', from, to });
+    } else if (change.kind === 'delete') {
+      const path = uriToPath(change.uri);
+      if (!await exists(path)) {
+        if (change.options?.ignoreIfNotExists) continue;
+        throw new Error(`Cannot delete ${path}: file does not exist`);
+      }
+      if (await isDirectory(originalPath(path, simulation.moves))) {
+        simulation.removedDirectories.push(path);
+      }
+      for (const pending of simulation.contents.keys()) {
+        if (pending === path || pending.startsWith(`${path}/`)) {
+          simulation.contents.set(pending, null);
+        }
+      }
+      setContent(path, null, originalPath(path, simulation.moves));
+      simulation.steps.push({ type: 'delete', path });
+    }
+  }
+
+  return simulation;
+}
+
+async function describeEditSimulation(
+  simulation: EditSimulation,
+  readOriginal: (path: string) => Promise<string | null> = readFileOrNull
+): Promise<{ files: string[]; diff: string }> {
+  const files = new Set<string>();
+  const sections: string[] = [];
+
+  for (const move of simulation.moves) {
+    files.add(move.from);
+    files.add(move.to);
+    sections.push(`rename from ${move.from}\nrename to ${move.to}`);
+  }
+
+  for (const [path, content] of simulation.contents) {
+    const origin = simulation.origins.get(path) ?? path;
+    // Paths vacated by a rename are covered by the rename entry
+    if (content === null && relocatePath(path, simulation.moves) !== path) continue;
+
+    const original = await readOriginal(origin);
+    if (original === content) continue;
+
+    files.add(path);
+    const fileDiff = createUnifiedDiff(origin, path, original, content);
+    if (fileDiff) {
+      sections.push(fileDiff);
+    }
+  }
+
+  for (const dir of simulation.removedDirectories) {
+    files.add(dir);
+    sections.push(`delete directory ${dir}`);
+  }
+
+  return { files: Array.from(files).sort(), diff: sections.join('\n') };
+}
+
+async function commitEditSimulation(simulation: EditSimulation, backupRoot: string): Promise<void> {
+  const backupDir = join(backupRoot, `edit-backup-${randomUUID()}`);
+  const undo: (() => Promise<void>)[] = [];
+  let backups = 0;
+
+  // Copy (rather than move) backups, since the temp directory may be on another filesystem
+  const backup = async (path: string): Promise<string> => {
+    const target = join(backupDir, String(backups++));
+    await mkdir(backupDir, { recursive: true });
+    await cp(path, target, { recursive: true });
+    return target;
+  };
+
+  try {
+    for (const step of simulation.steps) {
+      if (step.type === 'create') {
+        const previous = await readFileOrNull(step.path);
+        await mkdir(dirname(step.path), { recursive: true });
+        await writeFile(step.path, '', 'utf-8');
+        undo.push(async () => {
+          if (previous === null) {
+            await rm(step.path, { force: true });
+          } else {
+            await writeFile(step.path, previous, 'utf-8');
+          }
+        });
+      } else if (step.type === 'rename') {
+        const overwritten = (await readFileOrNull(step.to)) !== null ? await backup(step.to) : undefined;
+        await mkdir(dirname(step.to), { recursive: true });
+        await rename(step.from, step.to);
+        undo.push(async () => {
+          await rename(step.to, step.from);
+          if (overwritten) {
+            await cp(overwritten, step.to, { recursive: true });
+          }
+        });
+      } else {
+        const saved = await backup(step.path);
+        await rm(step.path, { recursive: true, force: true });
+        undo.push(async () => {
+          await cp(saved, step.path, { recursive: true });
+        });
+      }
+    }
+
+    for (const [path, content] of simulation.contents) {
+      if (content === null) continue;
+
+      const previous = await readFileOrNull(path);
+      if (previous === content) continue;
+
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, content, 'utf-8');
+      undo.push(async () => {
+        if (previous === null) {
+          await rm(path, { force: true });
+        } else {
+          await writeFile(path, previous, 'utf-8');
+        }
+      });
+    }
+  } catch (error) {
+    for (const step of undo.reverse()) {
+      try {
+        await step();
+      } catch (_error) {
+        // Keep rolling back the remaining steps
+      }
+    }
+    throw new Error(`Failed to apply workspace edit: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await rm(backupDir, { recursive: true, force: true });
+  }
+}
+
+// Delay before restarting a server that keeps crashing, doubled for every further crash
+const RESTART_BACKOFF_BASE = 1000;
+const RESTART_BACKOFF_MAX = 30_000;
+
+// Workspace Manager
+export class TypeScriptWorkspaceManager {
+  private workspaces: Map<string, TypeScriptLSPClient> = new Map();
+  private timeouts: TimeoutConfig;
+
+  constructor(timeouts: TimeoutConfig = timeoutsFromEnv()) {
+    this.timeouts = timeouts;
+  }
+
+  async getOrCreateWorkspace(path: string): Promise<TypeScriptLSPClient> {
+    const existing = this.workspaces.get(path);
+    if (existing) {
+      await this.restartIfCrashed(existing);
+      return existing;
+    }
+
+    const client = new TypeScriptLSPClient(path, this.timeouts);
+    await client.initialize();
+    this.workspaces.set(path, client);
+    return client;
+  }
+
+  // The client for a workspace, without starting one
+  getWorkspace(path: string): TypeScriptLSPClient | undefined {
+    return this.workspaces.get(path);
+  }
+
+  listWorkspaces(): TypeScriptLSPClient[] {
+    return Array.from(this.workspaces.values());
+  }
+
+  /**
+   * Restart a client whose server crashed. The first crash restarts straight
+   * away; after repeated crashes callers are turned away until the backoff
+   * delay has passed, rather than respawning a server that dies on startup.
+   */
+  private async restartIfCrashed(client: TypeScriptLSPClient): Promise<void> {
+    const crash = client.getCrash();
+    if (!crash) {
+      return;
+    }
+
+    const delay = crash.count > 1 ? Math.min(RESTART_BACKOFF_BASE * 2 ** (crash.count - 2), RESTART_BACKOFF_MAX) : 0;
+    const remaining = crash.exitedAt + delay - Date.now();
+    if (remaining > 0) {
+      throw new Error(`TypeScript Language Server crashed ${crash.count} times in a row (last: ${crash.reason}); it will be restarted in ${Math.ceil(remaining / 1000)}s`);
+    }
+
+    await client.restart();
+  }
+
+  async closeWorkspace(path: string): Promise<void> {
+    const client = this.workspaces.get(path);
+    if (client) {
+      await client.shutdown();
+      this.workspaces.delete(path);
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    const promises = Array.from(this.workspaces.values()).map(client => client.shutdown());
+    await Promise.all(promises);
+    this.workspaces.clear();
+  }
+
+  async detectProjectType(path: string): Promise<'typescript' | 'javascript' | 'mixed'> {
+    // Simple heuristic to detect project type
+    try {
+      const hasTs = await new Promise<boolean>((resolve) => {
+        const proc = spawn('find', [path, '-name', '*.ts', '-o', '-name', '*.tsx'], {
+          stdio: ['ignore', 'pipe', 'ignore'],
+        });
+        
+        let hasFiles = false;
+        proc.stdout?.on('data', (data) => {
+          if (data.toString().trim()) {
+            hasFiles = true;
+          }
+        });
+        
+        proc.on('close', () => {
+          resolve(hasFiles);
+        });
+        
+        proc.on('error', () => {
+          resolve(false);
+        });
+      });
+
+      const hasJs = await new Promise<boolean>((resolve) => {
+        const proc = spawn('find', [path, '-name', '*.js', '-o', '-name', '*.jsx'], {
+          stdio: ['ignore', 'pipe', 'ignore'],
+        });
+        
+        let hasFiles = false;
+        proc.stdout?.on('data', (data) => {
+          if (data.toString().trim()) {
+            hasFiles = true;
+          }
+        });
+        
+        proc.on('close', () => {
+          resolve(hasFiles);
+        });
+        
+        proc.on('error', () => {
+          resolve(false);
+        });
+      });
+
+      if (hasTs && hasJs) return 'mixed';
+      if (hasTs) return 'typescript';
+      if (hasJs) return 'javascript';
+      return 'typescript'; // Default to TypeScript
+    } catch (_error) {
+      return 'typescript';
+    }
+  }
+}
+
+// Symbol kinds mapping
+const SYMBOL_KINDS: { [key: number]: string } = {
+  1: 'File',
   2: 'Module',
   3: 'Namespace',
   4: 'Package',
@@ -663,6 +2378,29 @@ const DIAGNOSTIC_SEVERITY: { [key: number]: string } = {
   4: 'Hint',
 };
 
+// Minimum severity filter mapping
+const SEVERITY_LEVELS: { [key: string]: number } = {
+  error: 1,
+  warning: 2,
+  info: 3,
+  hint: 4,
+};
+
+const DOCUMENT_HIGHLIGHT_KINDS: { [key: number]: HighlightsResult['highlights'][number]['kind'] } = {
+  1: 'text',
+  2: 'read',
+  3: 'write',
+};
+
+// Code fix kinds accepted by the apply-code-fixes tool
+const CODE_FIX_KINDS: { [key: string]: string } = {
+  fixAll: 'source.fixAll.ts',
+  removeUnused: 'source.removeUnused.ts',
+  addMissingImports: 'source.addMissingImports.ts',
+  removeUnusedImports: 'source.removeUnusedImports.ts',
+  sortImports: 'source.sortImports.ts',
+};
+
 // Completion item kinds mapping
 const COMPLETION_ITEM_KINDS: { [key: number]: string } = {
   1: 'Text',
@@ -709,7 +2447,7 @@ export function formatLocation(location: Location): string {
   if (!location || !location.uri || !location.range) {
     return 'Unknown location';
   }
-  const path = location.uri.replace('file://', '');
+  const path = uriToPath(location.uri);
   return `${path}:${location.range.start.line + 1}:${location.range.start.character + 1}`;
 }
 
@@ -717,8 +2455,224 @@ export function formatRange(range: Range): string {
   return `${range.start.line + 1}:${range.start.character + 1}-${range.end.line + 1}:${range.end.character + 1}`;
 }
 
+export function formatDiagnosticCode(code?: number | string): string {
+  if (code === undefined) {
+    return '';
+  }
+  return typeof code === 'number' ? `TS${code}` : code;
+}
+
+function toDiagnosticEntry(diagnostic: Diagnostic, file?: string): DiagnosticEntry {
+  return {
+    file,
+    range: diagnostic.range,
+    severity: formatDiagnosticSeverity(diagnostic.severity ?? 1),
+    code: formatDiagnosticCode(diagnostic.code) || undefined,
+    source: diagnostic.source,
+    message: diagnostic.message,
+    relatedInformation: diagnostic.relatedInformation,
+  };
+}
+
+function formatDiagnosticEntry(diagnostic: DiagnosticEntry): string {
+  const { severity, code } = diagnostic;
+  let result = `${severity}${code ? ` ${code}` : ''} at ${formatRange(diagnostic.range)}: ${diagnostic.message}`;
+
+  if (diagnostic.relatedInformation && diagnostic.relatedInformation.length > 0) {
+    result += diagnostic.relatedInformation
+      .map(info => `\n  Related: ${formatLocation(info.location)} - ${info.message}`)
+      .join('');
+  }
+
+  return result;
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return formatDiagnosticEntry(toDiagnosticEntry(diagnostic));
+}
+
+function offsetToPosition(content: string, offset: number): Position {
+  const before = content.slice(0, offset);
+  const line = before.split('\n').length - 1;
+  return { line, character: offset - (before.lastIndexOf('\n') + 1) };
+}
+
+// Smallest single-range change that turns one text into another, for incremental didChange
+function computeContentChange(previous: string, next: string): { range: Range; text: string } {
+  const max = Math.min(previous.length, next.length);
+  let start = 0;
+  while (start < max && previous[start] === next[start]) start++;
+  let end = 0;
+  while (end < max - start && previous[previous.length - 1 - end] === next[next.length - 1 - end]) end++;
+
+  // Never split a surrogate pair
+  if (start > 0 && /[\uD800-\uDBFF]/.test(previous[start - 1])) start--;
+  if (end > 0 && /[\uDC00-\uDFFF]/.test(previous[previous.length - end])) end--;
+
+  return {
+    range: {
+      start: offsetToPosition(previous, start),
+      end: offsetToPosition(previous, previous.length - end),
+    },
+    text: next.slice(start, next.length - end),
+  };
+}
+
+function positionToOffset(content: string, position: Position): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const next = content.indexOf('\n', offset);
+    if (next === -1) {
+      return content.length;
+    }
+    offset = next + 1;
+  }
+  return Math.min(offset + position.character, content.length);
+}
+
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+  // Apply from the end of the document so earlier offsets stay valid; inserts at
+  // the same position are applied last-first so they end up in their given order
+  const sorted = edits
+    .map((edit, index) => ({
+      start: positionToOffset(content, edit.range.start),
+      end: positionToOffset(content, edit.range.end),
+      newText: edit.newText,
+      index,
+    }))
+    .sort((a, b) => b.start - a.start || b.end - a.end || b.index - a.index);
+
+  let result = content;
+  for (const edit of sorted) {
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+  }
+  return result;
+}
+
+// Beyond this many comparisons the changed region is shown as a single replacement
+const MAX_DIFF_COMPARISONS = 4_000_000;
+const DIFF_CONTEXT_LINES = 3;
+
+function diffLines(a: string[], b: string[]): { type: ' ' | '-' | '+'; line: string }[] {
+  // Trim the common prefix and suffix so only the changed region is compared
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: { type: ' ' | '-' | '+'; line: string }[] = a.slice(0, start).map(line => ({ type: ' ' as const, line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_COMPARISONS) {
+    ops.push(...midA.map(line => ({ type: '-' as const, line })));
+    ops.push(...midB.map(line => ({ type: '+' as const, line })));
+  } else {
+    // Longest common subsequence of the remaining lines, computed from the end
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push({ type: ' ', line: midA[i] });
+        i++;
+        j++;
+      } else if (j >= midB.length || (i < midA.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        ops.push({ type: '-', line: midA[i] });
+        i++;
+      } else {
+        ops.push({ type: '+', line: midB[j] });
+        j++;
+      }
+    }
+  }
+
+  ops.push(...a.slice(endA).map(line => ({ type: ' ' as const, line })));
+  return ops;
+}
+
+function splitLines(text: string | null): string[] {
+  if (text === null || text === '') {
+    return [];
+  }
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+export function createUnifiedDiff(oldPath: string, newPath: string, oldText: string | null, newText: string | null): string {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  if (!ops.some(op => op.type !== ' ')) {
+    return '';
+  }
+
+  // Line counters before each operation, used for hunk headers
+  const oldLines: number[] = [];
+  const newLines: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    oldLines.push(oldLine);
+    newLines.push(newLine);
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+  }
+  oldLines.push(oldLine);
+  newLines.push(newLine);
+
+  let result = `--- ${oldText === null ? '/dev/null' : oldPath}\n+++ ${newText === null ? '/dev/null' : newPath}`;
+
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === ' ') {
+      index++;
+      continue;
+    }
+
+    // Extend the hunk while changes are close enough to share context
+    const start = Math.max(0, index - DIFF_CONTEXT_LINES);
+    let lastChange = index;
+    let scan = index;
+    while (scan < ops.length) {
+      if (ops[scan].type !== ' ') {
+        lastChange = scan;
+      } else if (scan - lastChange > DIFF_CONTEXT_LINES * 2) {
+        break;
+      }
+      scan++;
+    }
+    const end = Math.min(ops.length, lastChange + DIFF_CONTEXT_LINES + 1);
+
+    const oldCount = oldLines[end] - oldLines[start];
+    const newCount = newLines[end] - newLines[start];
+    const oldStart = oldCount === 0 ? oldLines[start] : oldLines[start] + 1;
+    const newStart = newCount === 0 ? newLines[start] : newLines[start] + 1;
+
+    result += `\n@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`;
+    result += ops.slice(start, end).map(op => `\n${op.type}${op.line}`).join('');
+    index = end;
+  }
+
+  return result;
+}
+
 // Check if TypeScript Language Server is available
-export async function checkTypeScriptLSPAvailable(): Promise<boolean> {
+export async function checkTypeScriptLSPAvailable(timeout = timeoutsFromEnv().availabilityCheck): Promise<boolean> {
   try {
     const result = await new Promise<{ stderr: string; exitCode: number }>((resolve) => {
       const proc = spawn('typescript-language-server', ['--help'], {
@@ -732,18 +2686,18 @@ export async function checkTypeScriptLSPAvailable(): Promise<boolean> {
       });
 
       // Set a timeout to prevent hanging
-      const timeout = setTimeout(() => {
+      const timer = setTimeout(() => {
         proc.kill();
         resolve({ stderr, exitCode: 1 });
-      }, 3000);
+      }, timeout);
 
       proc.on('close', (exitCode) => {
-        clearTimeout(timeout);
+        clearTimeout(timer);
         resolve({ stderr, exitCode: exitCode || 0 });
       });
 
       proc.on('error', () => {
-        clearTimeout(timeout);
+        clearTimeout(timer);
         resolve({ stderr: 'Process error', exitCode: 1 });
       });
     });
@@ -756,68 +2710,171 @@ export async function checkTypeScriptLSPAvailable(): Promise<boolean> {
 }
 
 // Tool operations
-export async function findSymbol(
-  client: TypeScriptLSPClient,
-  query: string,
-  kind?: string,
-  _workspace: boolean = true
-): Promise<string> {
-  // For workspace symbol search, we need to ensure TypeScript has indexed the workspace
-  // Try to open some common TypeScript files to populate the workspace
-  try {
-    const workspaceRoot = client['workspaceRoot'];
-    const { readdir, stat } = await import('node:fs/promises');
-    const path = await import('node:path');
-    
-    const findTsFiles = async (dir: string, maxFiles: number = 5): Promise<string[]> => {
-      if (maxFiles <= 0) return [];
-      
-      try {
-        const files: string[] = [];
-        const entries = await readdir(dir);
-        
-        for (const entry of entries) {
-          if (files.length >= maxFiles) break;
-          if (entry.startsWith('.') || entry === 'node_modules' || entry === 'dist' || entry === 'build') continue;
-          
-          const fullPath = path.join(dir, entry);
-          try {
-            const stats = await stat(fullPath);
-            if (stats.isFile() && (entry.endsWith('.ts') || entry.endsWith('.tsx'))) {
-              files.push(fullPath);
-            } else if (stats.isDirectory() && files.length < maxFiles) {
-              const subFiles = await findTsFiles(fullPath, maxFiles - files.length);
-              files.push(...subFiles);
-            }
-          } catch {
-            // Ignore individual file/directory errors
-          }
-        }
-        return files;
-      } catch {
-        return [];
-      }
-    };
-    
-    const tsFiles = await findTsFiles(workspaceRoot, 5);
-    
-    // Open the found files to help with workspace indexing
-    for (const file of tsFiles) {
-      try {
-        await client.ensureDocumentOpen(file);
-      } catch {
-        // Ignore errors for individual files
-      }
-    }
-    
-    // Give TypeScript server a moment to index
-    if (tsFiles.length > 0) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
-  } catch {
-    // If workspace discovery fails, continue with the request anyway
+// An expected outcome that stops an operation, such as an ambiguous selection; the text
+// wrappers report its message as their result, while tools surface it as an error
+class ToolNotice extends Error {}
+
+function noticeText(error: unknown): string {
+  if (error instanceof ToolNotice) {
+    return error.message;
+  }
+  throw error;
+}
+
+// Results are capped unless the caller asks for more, so large workspaces stay readable
+const DEFAULT_PAGE_LIMIT = 100;
+
+// A glob matches the paths under a directory it names, and a glob without a '/' matches
+// a file or directory name at any depth, as in .gitignore
+function pathFilter(client: TypeScriptLSPClient, options: PageOptions): (path: string) => boolean {
+  const workspaceRoot = client.getWorkspaceRoot();
+  const compile = (globs: string[] = []) => globs.map(glob => ({
+    absolute: isAbsolute(glob),
+    pattern: globToRegExp(`${glob.includes('/') ? glob.replace(/\/$/, '') : `**/${glob}`}{,/**}`),
+  }));
+  const include = compile(options.include);
+  const exclude = compile(options.exclude);
+
+  return path => {
+    const relativePath = relative(workspaceRoot, path);
+    const matches = ({ absolute, pattern }: { absolute: boolean; pattern: RegExp }) =>
+      pattern.test(absolute ? path : relativePath);
+    return (include.length === 0 || include.some(matches)) && !exclude.some(matches);
+  };
+}
+
+function paginate<T>(items: T[], options: PageOptions, defaultLimit = DEFAULT_PAGE_LIMIT): { items: T[]; page: PageInfo } {
+  const offset = Math.max(options.offset ?? 0, 0);
+  const limit = Math.max(options.limit ?? defaultLimit, 0);
+  const paged = items.slice(offset, offset + limit);
+  const end = offset + paged.length;
+  return {
+    items: paged,
+    page: { offset, limit, total: items.length, returned: paged.length, nextOffset: end < items.length ? end : undefined },
+  };
+}
+
+function formatPageNotice(page: PageInfo, noun: string): string {
+  if (page.returned === page.total) {
+    return '';
+  }
+  const range = page.returned > 0 ? `${page.offset + 1}-${page.offset + page.returned}` : 'none';
+  const next = page.nextOffset !== undefined ? `; pass offset ${page.nextOffset} for more` : '';
+  return `\n\n(Showing ${range} of ${page.total} ${noun}${next})`;
+}
+
+function compareLocations(a: Location, b: Location): number {
+  return a.uri.localeCompare(b.uri) ||
+    a.range.start.line - b.range.start.line ||
+    a.range.start.character - b.range.start.character;
+}
+
+interface SymbolCandidate {
+  file: string;
+  namePath: string[];
+  kind: number;
+  selectionRange: Range;
+}
+
+function collectSymbolCandidates(
+  file: string,
+  symbols: DocumentSymbol[],
+  namePath: string[],
+  parents: string[] = []
+): SymbolCandidate[] {
+  const candidates: SymbolCandidate[] = [];
+  for (const symbol of symbols) {
+    const path = [...parents, symbol.name];
+    // The locator names the end of the symbol's path, so 'UserService.getUser' matches inside a namespace too
+    const tail = path.slice(-namePath.length);
+    if (tail.length === namePath.length && tail.every((name, index) => name === namePath[index])) {
+      candidates.push({ file, namePath: path, kind: symbol.kind, selectionRange: symbol.selectionRange });
+    }
+    candidates.push(...collectSymbolCandidates(file, symbol.children ?? [], namePath, path));
+  }
+  return candidates;
+}
+
+async function findSymbolCandidates(client: TypeScriptLSPClient, file: string, namePath: string[]): Promise<SymbolCandidate[]> {
+  await client.ensureDocumentOpen(file);
+  const symbols = await client.sendRequest('textDocument/documentSymbol', {
+    textDocument: { uri: pathToUri(file) },
+  });
+  return Array.isArray(symbols) ? collectSymbolCandidates(file, symbols as DocumentSymbol[], namePath) : [];
+}
+
+/**
+ * Resolve a symbol locator such as `src/services/user.ts#UserService.getUser` to the
+ * position of the symbol's name. Without a path the locator is looked up in `file`,
+ * or across the workspace when no file is given either.
+ */
+export async function resolveSymbolLocator(
+  client: TypeScriptLSPClient,
+  locator: string,
+  file?: string
+): Promise<SymbolPosition> {
+  const hashIndex = locator.lastIndexOf('#');
+  const path = locator.slice(0, Math.max(hashIndex, 0));
+  const namePath = locator.slice(hashIndex + 1).split('.').filter(name => name.length > 0);
+  if (namePath.length === 0) {
+    throw new Error(`Invalid symbol locator '${locator}': expected a name path such as src/file.ts#Class.method or #Class.method`);
+  }
+
+  const workspaceRoot = client.getWorkspaceRoot();
+  const target = path || file;
+  let candidates: SymbolCandidate[];
+  if (target) {
+    candidates = await findSymbolCandidates(client, isAbsolute(target) ? target : join(workspaceRoot, target), namePath);
+  } else {
+    // workspace/symbol only searches the projects the server has loaded
+    await client.waitUntilReady();
+
+    const name = namePath[namePath.length - 1];
+    const symbols: SymbolInformation[] = await client.sendRequest('workspace/symbol', {
+      query: name,
+    } as WorkspaceSymbolParams);
+    const files = new Set((symbols ?? [])
+      .filter(symbol => symbol.name === name)
+      .map(symbol => uriToPath(symbol.location.uri))
+      .filter(symbolFile => !symbolFile.includes('/node_modules/')));
+
+    candidates = [];
+    for (const symbolFile of [...files].sort()) {
+      candidates.push(...await findSymbolCandidates(client, symbolFile, namePath));
+    }
   }
 
+  const qualifiedName = namePath.join('.');
+  if (candidates.length === 0) {
+    throw new Error(`No symbol named '${qualifiedName}' found in ${target ?? 'the workspace'}`);
+  }
+
+  // A locator naming the whole path from the top of the file wins over partial matches
+  const exact = candidates.filter(candidate => candidate.namePath.length === namePath.length);
+  const matches = exact.length > 0 ? exact : candidates;
+  if (matches.length > 1) {
+    const list = matches.map(candidate => {
+      const { start } = candidate.selectionRange;
+      const locatorPath = `${relative(workspaceRoot, candidate.file)}#${candidate.namePath.join('.')}`;
+      return `  ${locatorPath} (${formatSymbolKind(candidate.kind)}) at ${start.line + 1}:${start.character + 1}`;
+    });
+    throw new Error(`Symbol locator '${locator}' is ambiguous, matching ${matches.length} symbols:\n${list.join('\n')}`);
+  }
+
+  const { start } = matches[0].selectionRange;
+  return { file: matches[0].file, line: start.line + 1, character: start.character };
+}
+
+export async function findSymbolResult(
+  client: TypeScriptLSPClient,
+  query: string,
+  kind?: string,
+  _workspace = true,
+  options: PageOptions = {}
+): Promise<SymbolsResult> {
+  // workspace/symbol only searches the projects the server has loaded
+  await client.waitUntilReady();
+
   const symbols: SymbolInformation[] = await client.sendRequest('workspace/symbol', {
     query,
   } as WorkspaceSymbolParams);
@@ -851,121 +2908,432 @@ export async function findSymbol(
     filtered = symbols.filter(s => targetKinds.includes(s.kind));
   }
 
-  if (filtered.length === 0) {
-    return `No symbols found matching '${query}'${kind ? ` of type '${kind}'` : ''}`;
+  // Order by name and then location so pages stay stable between calls
+  const included = pathFilter(client, options);
+  const sorted = filtered
+    .filter(symbol => included(uriToPath(symbol.location.uri)))
+    .sort((a, b) => a.name.localeCompare(b.name) || compareLocations(a.location, b.location));
+  const { items, page } = paginate(sorted, options);
+
+  return {
+    query,
+    kind,
+    symbols: items.map(symbol => ({
+      name: symbol.name,
+      kind: formatSymbolKind(symbol.kind),
+      location: symbol.location,
+      containerName: symbol.containerName,
+    })),
+    page,
+  };
+}
+
+function formatSymbolEntry(symbol: SymbolEntry, hierarchical: boolean, indent = ''): string {
+  let result = `${indent}${symbol.name} (${symbol.kind}) - ${formatRange(symbol.location.range)}`;
+  if (symbol.detail) {
+    result += ` - ${symbol.detail}`;
+  }
+  if (hierarchical && symbol.children && symbol.children.length > 0) {
+    result += `\n${symbol.children.map(child => formatSymbolEntry(child, hierarchical, `${indent}  `)).join('\n')}`;
+  }
+  return result;
+}
+
+export function formatSymbolsResult(result: SymbolsResult): string {
+  const { page } = result;
+  if (result.file) {
+    if (page.total === 0) {
+      return 'No symbols found in this document';
+    }
+    const formatted = result.symbols.map(symbol => formatSymbolEntry(symbol, true)).join('\n\n');
+    return `Document symbols:\n\n${formatted}${formatPageNotice(page, 'top-level symbols')}`;
+  }
+
+  if (page.total === 0) {
+    return `No symbols found matching '${result.query ?? ''}'${result.kind ? ` of type '${result.kind}'` : ''}`;
   }
 
-  const results = filtered.map(symbol => {
+  const results = result.symbols.map(symbol => {
     const location = formatLocation(symbol.location);
-    const symbolKind = formatSymbolKind(symbol.kind);
-    return `${symbol.name} (${symbolKind}) - ${location}${symbol.containerName ? ` in ${symbol.containerName}` : ''}`;
+    return `${symbol.name} (${symbol.kind}) - ${location}${symbol.containerName ? ` in ${symbol.containerName}` : ''}`;
   });
 
-  return `Found ${results.length} symbol${results.length !== 1 ? 's' : ''}:\n\n${results.join('\n')}`;
+  return `Found ${page.total} symbol${page.total !== 1 ? 's' : ''}:\n\n${results.join('\n')}${formatPageNotice(page, 'symbols')}`;
+}
+
+export async function findSymbol(
+  client: TypeScriptLSPClient,
+  query: string,
+  kind?: string,
+  workspace = true,
+  options: PageOptions = {}
+): Promise<string> {
+  return formatSymbolsResult(await findSymbolResult(client, query, kind, workspace, options));
+}
+
+const LOCATION_TARGET_LABELS: { [target in LocationsResult['target']]: { found: string; missing: string } } = {
+  definition: { found: 'Definition found at', missing: 'No definition found at this position' },
+  'source definition': { found: 'Source definition found at', missing: 'No source definition found at this position' },
+  'type definition': { found: 'Type definition found at', missing: 'No type definition found at this position' },
+  implementation: { found: 'Implementation found at', missing: 'No implementations found at this position' },
+};
+
+function toLocationsResult(
+  client: TypeScriptLSPClient,
+  target: LocationsResult['target'],
+  result: Location | Location[] | null,
+  options: PageOptions
+): LocationsResult {
+  const locations = !result ? [] : Array.isArray(result) ? result : [result];
+  const included = pathFilter(client, options);
+  const { items, page } = paginate(
+    locations.filter(location => included(uriToPath(location.uri))).sort(compareLocations),
+    options
+  );
+  return { target, locations: items, page };
+}
+
+export function formatLocationsResult(result: LocationsResult): string {
+  const labels = LOCATION_TARGET_LABELS[result.target];
+  if (result.page.total === 0) {
+    return labels.missing;
+  }
+  const locations = result.locations.map(loc => `${labels.found}: ${formatLocation(loc)}`).join('\n\n');
+  return `${locations}${formatPageNotice(result.page, 'locations')}`;
+}
+
+// Turn tsserver's position assertion failures into a readable message
+function describePositionError(error: unknown, feature: string): string {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  if (errorMessage.includes('Debug Failure') || errorMessage.includes('False expression')) {
+    return `${feature} not available at this position (position calculation error)`;
+  }
+  return `${feature} error: ${errorMessage}`;
+}
+
+export async function gotoDefinitionResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  options: PageOptions = {}
+): Promise<LocationsResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+  
+  const result = await client.sendRequest('textDocument/definition', {
+    textDocument: { uri: pathToUri(file) },
+    position: { line: line - 1, character },
+  } as TextDocumentPositionParams);
+
+  return toLocationsResult(client, 'definition', result as Location | Location[] | null, options);
 }
 
 export async function gotoDefinition(
   client: TypeScriptLSPClient,
   file: string,
   line: number,
-  character: number
+  character: number,
+  options: PageOptions = {}
 ): Promise<string> {
   try {
-    // Ensure document is open before making request
-    await client.ensureDocumentOpen(file);
-    
-    const result = await client.sendRequest('textDocument/definition', {
-      textDocument: { uri: `file://${file}` },
-      position: { line: line - 1, character },
-    } as TextDocumentPositionParams);
-
-    if (!result || (Array.isArray(result) && result.length === 0)) {
-      return 'No definition found at this position';
-    }
-
-    const locations: Location[] = Array.isArray(result) ? result : [result];
-    
-    const definitions = locations.map(loc => {
-      const path = formatLocation(loc);
-      return `Definition found at: ${path}`;
-    });
-
-    return definitions.join('\n\n');
+    return formatLocationsResult(await gotoDefinitionResult(client, file, line, character, options));
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    if (errorMessage.includes('Debug Failure') || errorMessage.includes('False expression')) {
-      return 'Definition not available at this position (position calculation error)';
-    }
-    return `Definition error: ${errorMessage}`;
+    return describePositionError(error, 'Definition');
   }
 }
 
-export async function gotoSourceDefinition(
+export async function gotoSourceDefinitionResult(
   client: TypeScriptLSPClient,
   file: string,
   line: number,
-  character: number
-): Promise<string> {
+  character: number,
+  options: PageOptions = {}
+): Promise<LocationsResult> {
   try {
     // Ensure document is open before making request
     await client.ensureDocumentOpen(file);
     
     const result = await client.executeCommand('_typescript.goToSourceDefinition', [
-      `file://${file}`,
+      pathToUri(file),
       { line: line - 1, character },
     ]);
 
-    if (!result || (Array.isArray(result) && result.length === 0)) {
-      return 'No source definition found at this position';
+    return toLocationsResult(client, 'source definition', result as Location | Location[] | null, options);
+  } catch (error) {
+    if (isMethodNotFound(error)) {
+      throw new Error('Source definition not available (requires TypeScript 4.7+)');
     }
+    throw error;
+  }
+}
 
-    const locations: Location[] = Array.isArray(result) ? result : [result];
-    
-    const definitions = locations.map(loc => {
-      const path = formatLocation(loc);
-      return `Source definition found at: ${path}`;
-    });
-
-    return definitions.join('\n\n');
-  } catch (_error) {
-    return 'Source definition not available (requires TypeScript 4.7+)';
+export async function gotoSourceDefinition(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  options: PageOptions = {}
+): Promise<string> {
+  try {
+    return formatLocationsResult(await gotoSourceDefinitionResult(client, file, line, character, options));
+  } catch (error) {
+    return (error as Error).message;
   }
 }
 
+export async function gotoTypeDefinitionResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  options: PageOptions = {}
+): Promise<LocationsResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+  
+  const result = await client.sendRequest('textDocument/typeDefinition', {
+    textDocument: { uri: pathToUri(file) },
+    position: { line: line - 1, character },
+  } as TextDocumentPositionParams);
+
+  return toLocationsResult(client, 'type definition', result as Location | Location[] | null, options);
+}
+
 export async function gotoTypeDefinition(
   client: TypeScriptLSPClient,
   file: string,
   line: number,
-  character: number
+  character: number,
+  options: PageOptions = {}
 ): Promise<string> {
   try {
-    // Ensure document is open before making request
-    await client.ensureDocumentOpen(file);
-    
-    const result = await client.sendRequest('textDocument/typeDefinition', {
-      textDocument: { uri: `file://${file}` },
-      position: { line: line - 1, character },
-    } as TextDocumentPositionParams);
+    return formatLocationsResult(await gotoTypeDefinitionResult(client, file, line, character, options));
+  } catch (error) {
+    return describePositionError(error, 'Type definition');
+  }
+}
 
-    if (!result || (Array.isArray(result) && result.length === 0)) {
-      return 'No type definition found at this position';
-    }
+interface ReferenceDetails {
+  symbolName?: string;
+  symbolDisplay?: string;
+  writes: Set<string>;
+  definitions: Set<string>;
+}
 
-    const locations: Location[] = Array.isArray(result) ? result : [result];
-    
-    const definitions = locations.map(loc => {
-      const path = formatLocation(loc);
-      return `Type definition found at: ${path}`;
+const REFERENCE_KINDS: ReferenceKind[] = ['declaration', 'import', 'type', 'write', 'read'];
+
+// Symbols that can only appear in type positions
+const TYPE_SYMBOL_PATTERN = /^(?:interface|type|\(type parameter\)) /;
+
+// Text before a class or enum reference that puts it in a type annotation
+const TYPE_POSITION_PATTERN = /(?:[\w?)\]]\s*:|\bimplements\s+(?:[\w.]+\s*,\s*)*|\b(?:as|satisfies|keyof)\s+|[<|&]\s*)$/;
+
+async function findReferenceDetails(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number
+): Promise<ReferenceDetails> {
+  const details: ReferenceDetails = { writes: new Set(), definitions: new Set() };
+  try {
+    // The language server drops tsserver's write and definition flags from references
+    const response: {
+      body?: {
+        symbolName: string;
+        symbolDisplayString: string;
+        refs: { file: string; start: { line: number; offset: number }; isWriteAccess?: boolean; isDefinition?: boolean }[];
+      };
+    } = await client.sendRequest('workspace/executeCommand', {
+      command: 'typescript.tsserverRequest',
+      arguments: ['references', { file, line, offset: character + 1 }],
     });
+    details.symbolName = response?.body?.symbolName;
+    details.symbolDisplay = response?.body?.symbolDisplayString;
+    for (const ref of response?.body?.refs ?? []) {
+      const key = `${ref.file}:${ref.start.line - 1}:${ref.start.offset - 1}`;
+      if (ref.isDefinition) details.definitions.add(key);
+      if (ref.isWriteAccess) details.writes.add(key);
+    }
+  } catch {
+    // Without tsserver's flags every non-import reference is reported as a read
+  }
+  return details;
+}
 
-    return definitions.join('\n\n');
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    if (errorMessage.includes('Debug Failure') || errorMessage.includes('False expression')) {
-      return 'Type definition not available at this position (position calculation error)';
+function isImportReference(lines: string[], line: number): boolean {
+  // Walk back through a multi-line import list to the line that starts the statement
+  let start = line;
+  while (start > 0 && start > line - 50 && !/^\s*(?:import|export)\b/.test(lines[start])) {
+    if (!/[,{]\s*$/.test(lines[start - 1])) break;
+    start--;
+  }
+
+  let statement = '';
+  for (let index = start; index < lines.length && index < start + 50; index++) {
+    statement += `${lines[index]}\n`;
+    if (/\bfrom\s*['"]|;\s*$/.test(lines[index])) break;
+  }
+
+  return /^\s*import\b(?!\s*\()/.test(statement) || /^\s*export\b[^;]*\bfrom\s*['"]/.test(statement);
+}
+
+function enclosingSymbolPath(symbols: DocumentSymbol[], position: Position): string[] {
+  for (const symbol of symbols) {
+    if (rangeContains(symbol.range, position)) {
+      return [symbol.name, ...enclosingSymbolPath(symbol.children ?? [], position)];
+    }
+  }
+  return [];
+}
+
+export async function findReferencesResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  includeDeclaration = false,
+  contextLines = 0,
+  options: PageOptions = {}
+): Promise<ReferencesResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+  
+  const result: Location[] | null = await client.sendRequest('textDocument/references', {
+    textDocument: { uri: pathToUri(file) },
+    position: { line: line - 1, character },
+    context: { includeDeclaration },
+  } as ReferenceParams);
+
+  const included = pathFilter(client, options);
+  const locations = (result ?? [])
+    .filter(location => included(uriToPath(location.uri)))
+    .sort(compareLocations);
+
+  if (locations.length === 0) {
+    return { counts: {}, files: [], page: paginate(locations, options).page };
+  }
+
+  const details = await findReferenceDetails(client, file, line, character);
+  const display = details.symbolDisplay ?? '';
+  const isTypeSymbol = TYPE_SYMBOL_PATTERN.test(display);
+  const isClassOrEnum = /^(?:class|enum) /.test(display);
+
+  const sources = new Map<string, string[]>();
+  const readLines = async (path: string): Promise<string[]> => {
+    if (!sources.has(path)) {
+      try {
+        sources.set(path, (await client.readDocument(path)).split(/\r?\n/));
+      } catch {
+        // Report the location without source context
+        sources.set(path, []);
+      }
+    }
+    return sources.get(path) ?? [];
+  };
+
+  const outlines = new Map<string, DocumentSymbol[]>();
+  const readSymbols = async (path: string): Promise<DocumentSymbol[]> => {
+    if (!outlines.has(path)) {
+      try {
+        await client.ensureDocumentOpen(path);
+        const documentSymbols = await client.sendRequest('textDocument/documentSymbol', {
+          textDocument: { uri: pathToUri(path) },
+        });
+        outlines.set(path, Array.isArray(documentSymbols) ? documentSymbols : []);
+      } catch {
+        // Report the location without its enclosing symbol
+        outlines.set(path, []);
+      }
+    }
+    return outlines.get(path) ?? [];
+  };
+
+  // Classify every reference so the counts describe the whole result, not just one page
+  const counts: { [kind: string]: number } = {};
+  const fileCounts = new Map<string, number>();
+  const classified: { path: string; location: Location; kind: ReferenceKind }[] = [];
+  for (const location of locations) {
+    const path = uriToPath(location.uri);
+    const lines = await readLines(path);
+    const { start } = location.range;
+    const key = `${path}:${start.line}:${start.character}`;
+    const before = lines[start.line]?.slice(0, start.character) ?? '';
+
+    let kind: ReferenceKind = 'read';
+    if (details.definitions.has(key)) {
+      kind = 'declaration';
+    } else if (isImportReference(lines, start.line)) {
+      kind = 'import';
+    } else if (isTypeSymbol || (isClassOrEnum && TYPE_POSITION_PATTERN.test(before))) {
+      kind = 'type';
+    } else if (details.writes.has(key)) {
+      kind = 'write';
+    }
+    counts[kind] = (counts[kind] ?? 0) + 1;
+    fileCounts.set(path, (fileCounts.get(path) ?? 0) + 1);
+    classified.push({ path, location, kind });
+  }
+
+  const { items, page } = paginate(classified, options);
+
+  const files: ReferencesResult['files'] = [];
+  for (const { path, location, kind } of items) {
+    let current = files[files.length - 1];
+    if (current?.file !== path) {
+      current = { file: path, count: fileCounts.get(path) ?? 0, references: [] };
+      files.push(current);
+    }
+
+    const lines = await readLines(path);
+    const { start } = location.range;
+    const context: SourceLine[] = [];
+    const first = Math.max(start.line - contextLines, 0);
+    const last = Math.min(start.line + contextLines, lines.length - 1);
+    for (let index = first; index <= last; index++) {
+      context.push({ line: index + 1, text: lines[index] });
     }
-    return `Type definition error: ${errorMessage}`;
+
+    const symbols = await readSymbols(path);
+    const enclosing = enclosingSymbolPath(symbols, start).join('.');
+    current.references.push({ location, kind, enclosingSymbol: enclosing || undefined, context });
   }
+
+  return { symbolName: details.symbolName, counts, files, page };
+}
+
+export function formatReferencesResult(result: ReferencesResult): string {
+  const { page } = result;
+  if (page.total === 0) {
+    return 'No references found';
+  }
+
+  const sections = result.files.map(({ file, count, references }) => {
+    const entries = references.map(reference => {
+      const { start } = reference.location.range;
+      let entry = `  ${start.line + 1}:${start.character + 1} [${reference.kind}]${reference.enclosingSymbol ? ` in ${reference.enclosingSymbol}` : ''}`;
+
+      // Mark the referencing line when it is surrounded by context
+      const width = String(reference.context[reference.context.length - 1]?.line ?? 0).length;
+      for (const { line, text } of reference.context) {
+        const marker = line === start.line + 1 && reference.context.length > 1 ? '>' : ' ';
+        entry += `\n  ${marker} ${String(line).padStart(width)} | ${text}`;
+      }
+      return entry;
+    });
+    return `${file} (${count})\n${entries.join('\n')}`;
+  });
+
+  const summary = REFERENCE_KINDS
+    .filter(kind => result.counts[kind])
+    .map(kind => `${result.counts[kind]} ${kind}${result.counts[kind] !== 1 ? 's' : ''}`)
+    .join(', ');
+  const name = result.symbolName ? ` to '${result.symbolName}'` : '';
+  const fileCount = page.returned === page.total
+    ? ` in ${result.files.length} file${result.files.length !== 1 ? 's' : ''}`
+    : '';
+
+  return `Found ${page.total} reference${page.total !== 1 ? 's' : ''}${name}${fileCount} (${summary}):\n\n${sections.join('\n\n')}${formatPageNotice(page, 'references')}`;
 }
 
 export async function findReferences(
@@ -973,206 +3341,1704 @@ export async function findReferences(
   file: string,
   line: number,
   character: number,
-  includeDeclaration: boolean = false
+  includeDeclaration = false,
+  contextLines = 0,
+  options: PageOptions = {}
 ): Promise<string> {
   try {
-    // Ensure document is open before making request
-    await client.ensureDocumentOpen(file);
-    
-    const result: Location[] = await client.sendRequest('textDocument/references', {
-      textDocument: { uri: `file://${file}` },
-      position: { line: line - 1, character },
-      context: { includeDeclaration },
-    } as ReferenceParams);
+    return formatReferencesResult(
+      await findReferencesResult(client, file, line, character, includeDeclaration, contextLines, options)
+    );
+  } catch (error) {
+    return describePositionError(error, 'References');
+  }
+}
 
-    if (!result || result.length === 0) {
-      return 'No references found';
+async function findWrittenOccurrences(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number
+): Promise<Set<string>> {
+  const writes = new Set<string>();
+  try {
+    const response: { body?: { file: string; highlightSpans: { start: { line: number; offset: number }; kind: string }[] }[] } =
+      await client.sendRequest('workspace/executeCommand', {
+        command: 'typescript.tsserverRequest',
+        arguments: ['documentHighlights', { file, line, offset: character + 1, filesToSearch: [file] }],
+      });
+    for (const span of response?.body?.find(item => item.file === file)?.highlightSpans ?? []) {
+      if (span.kind === 'writtenReference') {
+        writes.add(`${span.start.line - 1}:${span.start.offset - 1}`);
+      }
     }
+  } catch {
+    // Fall back to the kinds reported by the language server
+  }
+  return writes;
+}
 
-    const references = result.map(loc => formatLocation(loc));
-    
-    return `Found ${references.length} reference${references.length !== 1 ? 's' : ''}:\n\n${references.join('\n')}`;
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    if (errorMessage.includes('Debug Failure') || errorMessage.includes('False expression')) {
-      return 'References not available at this position (position calculation error)';
-    }
-    return `References error: ${errorMessage}`;
+export async function getDocumentHighlightsResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  options: PageOptions = {}
+): Promise<HighlightsResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+
+  const result: DocumentHighlight[] | null = await client.sendRequest('textDocument/documentHighlight', {
+    textDocument: { uri: pathToUri(file) },
+    position: { line: line - 1, character },
+  } as TextDocumentPositionParams);
+
+  if (!result || result.length === 0) {
+    return { file, counts: {}, highlights: [], page: paginate([], options).page };
   }
+
+  // typescript-language-server reports written references as reads, so ask tsserver which occurrences are writes
+  const writes = await findWrittenOccurrences(client, file, line, character);
+  const lines = (await client.readDocument(file)).split(/\r?\n/);
+  const highlights = result.map(highlight =>
+    writes.has(`${highlight.range.start.line}:${highlight.range.start.character}`) ? { ...highlight, kind: 3 } : highlight
+  ).sort((a, b) =>
+    a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character
+  );
+
+  // Name the symbol after the occurrence under the cursor
+  const position = { line: line - 1, character };
+  const current = highlights.find(highlight => rangeContains(highlight.range, position)) ?? highlights[0];
+  const { start, end } = current.range;
+  const name = start.line === end.line ? lines[start.line]?.slice(start.character, end.character) : undefined;
+
+  const counts: { [kind: string]: number } = {};
+  const entries = highlights.map(highlight => {
+    const kind = DOCUMENT_HIGHLIGHT_KINDS[highlight.kind ?? 1] ?? 'text';
+    counts[kind] = (counts[kind] ?? 0) + 1;
+    return { range: highlight.range, kind, text: lines[highlight.range.start.line]?.trim() ?? '' };
+  });
+
+  const { items, page } = paginate(entries, options);
+  return { file, symbolName: name || undefined, counts, highlights: items, page };
 }
 
-export async function findImplementations(
+export function formatHighlightsResult(result: HighlightsResult): string {
+  const { highlights, counts, page } = result;
+  if (page.total === 0) {
+    return 'No highlights found at this position';
+  }
+
+  const entries = highlights.map(({ range, kind, text }) =>
+    `  ${range.start.line + 1}:${range.start.character + 1} [${kind}] ${text}`
+  );
+
+  const summary = ['write', 'read', 'text']
+    .filter(kind => counts[kind])
+    .map(kind => `${counts[kind]} ${kind}${counts[kind] !== 1 ? 's' : ''}`)
+    .join(', ');
+
+  const name = result.symbolName ? ` of '${result.symbolName}'` : '';
+  return `Found ${page.total} occurrence${page.total !== 1 ? 's' : ''}${name} in ${result.file} (${summary}):\n${entries.join('\n')}${formatPageNotice(page, 'occurrences')}`;
+}
+
+export async function getDocumentHighlights(
   client: TypeScriptLSPClient,
   file: string,
   line: number,
-  character: number
+  character: number,
+  options: PageOptions = {}
 ): Promise<string> {
-  try {
-    // Ensure document is open before making request
+  return formatHighlightsResult(await getDocumentHighlightsResult(client, file, line, character, options));
+}
+
+export async function findImplementationsResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  options: PageOptions = {}
+): Promise<LocationsResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+  
+  const result = await client.sendRequest('textDocument/implementation', {
+    textDocument: { uri: pathToUri(file) },
+    position: { line: line - 1, character },
+  } as TextDocumentPositionParams);
+
+  return toLocationsResult(client, 'implementation', result as Location | Location[] | null, options);
+}
+
+export async function findImplementations(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  options: PageOptions = {}
+): Promise<string> {
+  try {
+    return formatLocationsResult(await findImplementationsResult(client, file, line, character, options));
+  } catch (error) {
+    return describePositionError(error, 'Implementations');
+  }
+}
+
+// Directories skipped when discovering project files
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', 'build']);
+
+// Number of files opened at once during a workspace diagnostics sweep
+const DIAGNOSTICS_BATCH_SIZE = 20;
+
+async function walkWorkspace(dir: string, matches: (name: string) => boolean): Promise<string[]> {
+  const results: string[] = [];
+  let entries: Dirent[];
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return results;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.has(entry.name)) continue;
+
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      results.push(...await walkWorkspace(fullPath, matches));
+    } else if (entry.isFile() && matches(entry.name)) {
+      results.push(fullPath);
+    }
+  }
+  return results;
+}
+
+// Files of each project configured in the workspace, or null without any configuration
+async function findConfiguredProjects(workspaceRoot: string): Promise<string[][] | null> {
+  const configFiles = await walkWorkspace(workspaceRoot, name => name === 'tsconfig.json' || name === 'jsconfig.json');
+  if (configFiles.length === 0) {
+    return null;
+  }
+
+  const ts = (await import('typescript')).default;
+  return configFiles.map((configFile) => {
+    const parsed = ts.getParsedCommandLineOfConfigFile(configFile, undefined, {
+      ...ts.sys,
+      onUnRecoverableConfigFileDiagnostic: () => {
+        // Unreadable configurations simply contribute no files
+      },
+    });
+    return (parsed?.fileNames ?? []).filter(fileName => !fileName.includes('/node_modules/')).sort();
+  });
+}
+
+async function findProjectFiles(workspaceRoot: string): Promise<string[]> {
+  const projects = await findConfiguredProjects(workspaceRoot);
+
+  // Without any project configuration, fall back to every TypeScript source file
+  if (!projects) {
+    const sources = await walkWorkspace(workspaceRoot, name => /\.(ts|tsx|mts|cts)$/.test(name));
+    return sources.sort();
+  }
+
+  return Array.from(new Set(projects.flat())).sort();
+}
+
+// One file of each project, enough to make the server load every project
+async function findProjectAnchors(workspaceRoot: string): Promise<string[]> {
+  const projects = await findConfiguredProjects(workspaceRoot);
+  if (!projects) {
+    const sources = await walkWorkspace(workspaceRoot, name => /\.(ts|tsx|mts|cts)$/.test(name));
+    return sources.sort().slice(0, 1);
+  }
+
+  return Array.from(new Set(projects.filter(files => files.length > 0).map(files => files[0])));
+}
+
+function formatSeverityCounts(counts: { [severity: string]: number }): string {
+  return Object.values(DIAGNOSTIC_SEVERITY)
+    .map(severity => ({ severity, count: counts[severity] ?? 0 }))
+    .filter(({ count }) => count > 0)
+    .map(({ severity, count }) => `${severity} x ${count}`)
+    .join(', ');
+}
+
+function compareDiagnostics(a: Diagnostic, b: Diagnostic): number {
+  return a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character;
+}
+
+async function getWorkspaceDiagnosticsResult(
+  client: TypeScriptLSPClient,
+  minimumSeverity: number,
+  options: PageOptions
+): Promise<DiagnosticsResult> {
+  const workspaceRoot = client.getWorkspaceRoot();
+  const files = (await findProjectFiles(workspaceRoot)).filter(pathFilter(client, options));
+  const result: DiagnosticsResult = {
+    workspaceRoot,
+    filesChecked: files.length,
+    totals: {},
+    diagnostics: [],
+    page: paginate([], options).page,
+  };
+
+  if (files.length === 0) {
+    return result;
+  }
+
+  const collected: DiagnosticEntry[] = [];
+
+  // Check files in batches, closing the ones we opened so the server does not keep
+  // re-checking the whole workspace on every later edit
+  for (let i = 0; i < files.length; i += DIAGNOSTICS_BATCH_SIZE) {
+    const batch = files.slice(i, i + DIAGNOSTICS_BATCH_SIZE);
+    const openedHere = batch.filter(file => !client.isDocumentOpen(file));
+
+    for (const file of batch) {
+      await client.ensureDocumentOpen(file);
+    }
+
+    try {
+      const results = await Promise.all(batch.map(file => client.waitForDiagnostics(file)));
+      results.forEach((diagnostics, index) => {
+        for (const diagnostic of [...diagnostics].sort(compareDiagnostics)) {
+          if ((diagnostic.severity ?? 1) <= minimumSeverity) {
+            collected.push(toDiagnosticEntry(diagnostic, batch[index]));
+          }
+        }
+      });
+    } finally {
+      for (const file of openedHere) {
+        await client.closeDocument(file);
+      }
+    }
+  }
+
+  const byCode = new Map<string, number>();
+  const byFile = new Map<string, { [severity: string]: number }>();
+
+  for (const diagnostic of collected) {
+    result.totals[diagnostic.severity] = (result.totals[diagnostic.severity] ?? 0) + 1;
+
+    const code = diagnostic.code ?? 'unknown';
+    byCode.set(code, (byCode.get(code) ?? 0) + 1);
+
+    const fileCounts = byFile.get(diagnostic.file as string) ?? {};
+    fileCounts[diagnostic.severity] = (fileCounts[diagnostic.severity] ?? 0) + 1;
+    byFile.set(diagnostic.file as string, fileCounts);
+  }
+
+  const { items, page } = paginate(collected, options);
+  result.byCode = Array.from(byCode.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([code, count]) => ({ code, count }));
+  result.byFile = Array.from(byFile.entries()).map(([file, counts]) => ({ file, counts }));
+  result.diagnostics = items;
+  result.page = page;
+
+  return result;
+}
+
+function formatWorkspaceDiagnosticsResult(result: DiagnosticsResult): string {
+  const { workspaceRoot, filesChecked, page } = result;
+  if (filesChecked === 0) {
+    return `No TypeScript files found in ${workspaceRoot}`;
+  }
+  if (page.total === 0) {
+    return `No diagnostics found in ${filesChecked} file${filesChecked !== 1 ? 's' : ''} under ${workspaceRoot}`;
+  }
+
+  let text = `Workspace diagnostics for ${workspaceRoot} (${filesChecked} file${filesChecked !== 1 ? 's' : ''} checked):\n\n`;
+  text += `Totals: ${formatSeverityCounts(result.totals)}`;
+
+  text += '\n\nBy code:\n';
+  text += (result.byCode ?? []).map(({ code, count }) => `  ${code} x ${count}`).join('\n');
+
+  text += '\n\nBy file:\n';
+  text += (result.byFile ?? []).map(({ file, counts }) => `  ${file}: ${formatSeverityCounts(counts)}`).join('\n');
+
+  if (result.diagnostics.length > 0) {
+    text += '\n\nDiagnostics:\n';
+    text += result.diagnostics
+      .map(diagnostic => `  ${diagnostic.file}: ${formatDiagnosticEntry(diagnostic).replace(/\n/g, '\n  ')}`)
+      .join('\n');
+  }
+
+  return `${text}${formatPageNotice(page, 'diagnostics')}`;
+}
+
+export async function getDiagnosticsResult(
+  client: TypeScriptLSPClient,
+  file?: string,
+  severity?: string,
+  options: PageOptions = {}
+): Promise<DiagnosticsResult> {
+  const minimumSeverity = SEVERITY_LEVELS[severity ?? 'hint'] ?? 4;
+
+  if (!file) {
+    return { ...await getWorkspaceDiagnosticsResult(client, minimumSeverity, options), severity };
+  }
+
+  // Ensure document is open so the server starts checking it
+  await client.ensureDocumentOpen(file);
+
+  const diagnostics = await client.waitForDiagnostics(file);
+  // Diagnostics without a severity are treated as errors, as the LSP spec suggests
+  const entries = [...diagnostics]
+    .sort(compareDiagnostics)
+    .filter(d => (d.severity ?? 1) <= minimumSeverity)
+    .map(diagnostic => toDiagnosticEntry(diagnostic, file));
+
+  const totals: { [severity: string]: number } = {};
+  for (const entry of entries) {
+    totals[entry.severity] = (totals[entry.severity] ?? 0) + 1;
+  }
+
+  const { items, page } = paginate(entries, options);
+  return { file, severity, filesChecked: 1, totals, diagnostics: items, page };
+}
+
+export function formatDiagnosticsResult(result: DiagnosticsResult): string {
+  if (!result.file) {
+    return formatWorkspaceDiagnosticsResult(result);
+  }
+
+  const { file, severity, diagnostics, page } = result;
+  if (page.total === 0) {
+    return `No diagnostics found in ${file}${severity ? ` at severity '${severity}' or above` : ''}`;
+  }
+
+  const results = diagnostics.map(formatDiagnosticEntry);
+
+  return `Found ${page.total} diagnostic${page.total !== 1 ? 's' : ''} in ${file}:\n\n${results.join('\n\n')}${formatPageNotice(page, 'diagnostics')}`;
+}
+
+export async function getDiagnostics(
+  client: TypeScriptLSPClient,
+  file?: string,
+  severity?: string,
+  options: PageOptions = {}
+): Promise<string> {
+  return formatDiagnosticsResult(await getDiagnosticsResult(client, file, severity, options));
+}
+
+// Quick-info keywords and the symbol kinds they describe
+const HOVER_KEYWORD_KINDS: { [key: string]: string } = {
+  class: 'class',
+  interface: 'interface',
+  type: 'type alias',
+  enum: 'enum',
+  function: 'function',
+  const: 'constant',
+  let: 'variable',
+  var: 'variable',
+  module: 'module',
+  namespace: 'namespace',
+  constructor: 'constructor',
+  import: 'import',
+};
+
+function hoverToMarkdown(contents: Hover['contents']): string {
+  const parts = Array.isArray(contents) ? contents : [contents];
+  return parts
+    .map(part => {
+      if (typeof part === 'string') {
+        return part;
+      }
+      if ('language' in part) {
+        return `\`\`\`${part.language}\n${part.value}\n\`\`\``;
+      }
+      return part.value;
+    })
+    .join('\n\n');
+}
+
+function inferHoverKind(signature: string): string | undefined {
+  // tsserver prefixes most quick-info with either "(kind)" or a declaration keyword
+  const parenthesized = signature.match(/^\(([^)]+)\)/);
+  if (parenthesized) {
+    return parenthesized[1];
+  }
+  const keyword = signature.match(/^(\w+)\s/);
+  return keyword ? HOVER_KEYWORD_KINDS[keyword[1]] : undefined;
+}
+
+export async function getHoverResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number
+): Promise<HoverResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+
+  const hover: Hover | null = await client.sendRequest('textDocument/hover', {
+    textDocument: { uri: pathToUri(file) },
+    position: { line: line - 1, character },
+  } as TextDocumentPositionParams);
+
+  if (!hover || !hover.contents) {
+    return { documentation: [], tags: [] };
+  }
+
+  const markdown = hoverToMarkdown(hover.contents);
+
+  // The signature is rendered as the leading fenced code block, everything after it
+  // is documentation (which may contain code blocks of its own, e.g. @example)
+  let signature: string | undefined;
+  const text = markdown.replace(/```\w*\n([\s\S]*?)\n```/, (_match, code: string) => {
+    signature = code.trim();
+    return '';
+  });
+
+  // JSDoc tags are rendered as paragraphs starting with *@tag*
+  const documentation: string[] = [];
+  const tags: HoverResult['tags'] = [];
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    const tagMatch = paragraph.match(/^\*@(\w+)\*(?:\s+`([^`]+)`)?(?:\s+—\s+|\s*\n)?([\s\S]*)$/);
+    if (tagMatch) {
+      tags.push({ name: tagMatch[1], target: tagMatch[2], text: tagMatch[3].trim() });
+    } else {
+      documentation.push(paragraph);
+    }
+  }
+
+  return {
+    signature: signature || undefined,
+    kind: signature ? inferHoverKind(signature) : undefined,
+    range: hover.range,
+    documentation,
+    tags,
+  };
+}
+
+export function formatHoverResult(hover: HoverResult): string {
+  const { signature, kind, documentation, tags } = hover;
+  if (!signature && documentation.length === 0 && tags.length === 0) {
+    return 'No hover information available at this position';
+  }
+
+  let result = signature || 'No type signature available';
+
+  if (kind) {
+    result += `\n\nKind: ${kind}`;
+  }
+  if (hover.range) {
+    result += `\nRange: ${formatRange(hover.range)}`;
+  }
+
+  if (documentation.length > 0) {
+    result += `\n\nDocumentation:\n${documentation.join('\n\n')}`;
+  }
+
+  const params = tags.filter(tag => tag.name === 'param');
+  if (params.length > 0) {
+    result += '\n\nParameters:';
+    result += params.map(tag => `\n  ${tag.target || 'unknown'}${tag.text ? ` - ${tag.text}` : ''}`).join('');
+  }
+
+  const returns = tags.find(tag => tag.name === 'returns' || tag.name === 'return');
+  if (returns) {
+    result += `\n\nReturns: ${returns.text || '(no description)'}`;
+  }
+
+  const deprecated = tags.find(tag => tag.name === 'deprecated');
+  if (deprecated) {
+    result += `\n\nDeprecated${deprecated.text ? `: ${deprecated.text}` : ''}`;
+  }
+
+  const otherTags = tags.filter(tag => !['param', 'returns', 'return', 'deprecated'].includes(tag.name));
+  if (otherTags.length > 0) {
+    result += '\n\nTags:';
+    result += otherTags.map(tag => `\n  @${tag.name}${tag.target ? ` ${tag.target}` : ''}${tag.text ? ` - ${tag.text}` : ''}`).join('');
+  }
+
+  return result;
+}
+
+export async function getHover(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number
+): Promise<string> {
+  try {
+    return formatHoverResult(await getHoverResult(client, file, line, character));
+  } catch (error) {
+    return describePositionError(error, 'Hover');
+  }
+}
+
+function markupText(value: string | MarkupContent | undefined): string | undefined {
+  return typeof value === 'object' ? value.value : value;
+}
+
+export async function getSignatureHelpResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number
+): Promise<SignatureHelpResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+
+  const result = await client.sendRequest('textDocument/signatureHelp', {
+    textDocument: { uri: pathToUri(file) },
+    position: { line: line - 1, character },
+  } as TextDocumentPositionParams);
+
+  if (!result || typeof result !== 'object' || !('signatures' in result)) {
+    return { signatures: [] };
+  }
+
+  const signatureResult = result as { signatures: unknown[] };
+  if (!Array.isArray(signatureResult.signatures)) {
+    return { signatures: [] };
+  }
+
+  return {
+    signatures: signatureResult.signatures.map((sig: unknown) => {
+      const signature = sig as { label?: string; documentation?: string | MarkupContent; parameters?: unknown[] };
+      const parameters = Array.isArray(signature.parameters) ? signature.parameters : [];
+      return {
+        label: signature.label || 'Unknown',
+        documentation: markupText(signature.documentation) || undefined,
+        parameters: parameters.map((param: unknown) => {
+          const parameter = param as { label?: string | [number, number]; documentation?: string | MarkupContent };
+          // Parameter labels may be offsets into the signature label
+          const label = Array.isArray(parameter.label)
+            ? (signature.label ?? '').slice(parameter.label[0], parameter.label[1])
+            : parameter.label;
+          return { label: label || 'Unknown', documentation: markupText(parameter.documentation) || undefined };
+        }),
+      };
+    }),
+  };
+}
+
+export function formatSignatureHelpResult(result: SignatureHelpResult): string {
+  if (result.signatures.length === 0) {
+    return 'No signature help available at this position';
+  }
+
+  const signatures = result.signatures.map((signature, index) => {
+    let text = `Signature ${index + 1}: ${signature.label}`;
+
+    if (signature.documentation) {
+      text += `\n  Documentation: ${signature.documentation}`;
+    }
+
+    if (signature.parameters.length > 0) {
+      text += '\n  Parameters:';
+      signature.parameters.forEach((parameter, paramIndex) => {
+        text += `\n    ${paramIndex + 1}. ${parameter.label}`;
+        if (parameter.documentation) {
+          text += ` - ${parameter.documentation}`;
+        }
+      });
+    }
+
+    return text;
+  });
+
+  return signatures.join('\n\n');
+}
+
+export async function getSignatureHelp(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number
+): Promise<string> {
+  return formatSignatureHelpResult(await getSignatureHelpResult(client, file, line, character));
+}
+
+function isAutoImportCompletion(item: CompletionItem): boolean {
+  // typescript-language-server sorts entries that would add an import after all others
+  return item.sortText?.startsWith('\uffff') || getAutoImportSource(item) !== undefined;
+}
+
+function getAutoImportSource(item: CompletionItem): string | undefined {
+  // Resolved auto-import entries describe the module in their detail text
+  const detailMatch = item.detail?.match(/^Auto import from '([^']+)'/);
+  if (detailMatch) {
+    return detailMatch[1];
+  }
+  const entry = item.data?.entryNames?.[0];
+  return typeof entry === 'object' ? entry.source : undefined;
+}
+
+export async function getCompletionsResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  prefix?: string,
+  limit = 50,
+  includeAutoImports = true,
+  offset = 0
+): Promise<CompletionsResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+
+  const result: CompletionList | CompletionItem[] | null = await client.sendRequest('textDocument/completion', {
+    textDocument: { uri: pathToUri(file) },
+    position: { line: line - 1, character },
+  } as TextDocumentPositionParams);
+
+  const items = Array.isArray(result) ? result : result?.items ?? [];
+
+  // Default to the identifier being typed at the cursor, like an editor would
+  let filterPrefix = prefix;
+  if (filterPrefix === undefined) {
+    try {
+      const content = await client.readDocument(file);
+      const lineText = content.split(/\r?\n/)[line - 1] ?? '';
+      filterPrefix = lineText.slice(0, character).match(/[\w$]*$/)?.[0] ?? '';
+    } catch {
+      filterPrefix = '';
+    }
+  }
+
+  const lowerPrefix = filterPrefix.toLowerCase();
+  const matching = items
+    .filter(item => item.label.toLowerCase().startsWith(lowerPrefix))
+    .filter(item => includeAutoImports || !isAutoImportCompletion(item))
+    .sort((a, b) => (a.sortText ?? a.label).localeCompare(b.sortText ?? b.label) || a.label.localeCompare(b.label));
+
+  const { items: shown, page } = paginate(matching, { limit, offset });
+
+  // Resolve only the entries we return, since resolving computes full details
+  const resolved = await Promise.all(shown.map(async item => {
+    try {
+      return await client.sendRequest<CompletionItem>('completionItem/resolve', item);
+    } catch {
+      return item;
+    }
+  }));
+
+  const completions = resolved.map(item => {
+    const documentation = markupText(item.documentation);
+    return {
+      label: item.label,
+      kind: item.kind ? formatCompletionItemKind(item.kind) : 'Unknown',
+      autoImportFrom: getAutoImportSource(item),
+      deprecated: Boolean(item.deprecated || item.tags?.includes(1)),
+      detail: item.detail?.replace(/^Auto import from '[^']+'\n?/, '').trim() || undefined,
+      documentation: documentation?.split(/\n\s*\n/)[0].trim() || undefined,
+    };
+  });
+
+  return { prefix: filterPrefix, available: items.length, completions, page };
+}
+
+export function formatCompletionsResult(result: CompletionsResult): string {
+  const { prefix, completions, page } = result;
+  if (result.available === 0) {
+    return 'No completions available at this position';
+  }
+  if (page.total === 0) {
+    return `No completions found${prefix ? ` matching '${prefix}'` : ''}`;
+  }
+
+  const entries = completions.map(item => {
+    let entry = `${item.label} (${item.kind})`;
+
+    if (item.autoImportFrom) {
+      entry += ` - auto-import from '${item.autoImportFrom}'`;
+    }
+    if (item.deprecated) {
+      entry += ' [deprecated]';
+    }
+    if (item.detail) {
+      entry += `\n  ${item.detail.replace(/\n/g, '\n  ')}`;
+    }
+    if (item.documentation) {
+      entry += `\n  ${item.documentation.replace(/\n/g, '\n  ')}`;
+    }
+
+    return entry;
+  });
+
+  const header = `Found ${page.total} completion${page.total !== 1 ? 's' : ''}${prefix ? ` matching '${prefix}'` : ''}`;
+
+  return `${header}:\n\n${entries.join('\n\n')}${formatPageNotice(page, 'completions')}`;
+}
+
+export async function getCompletionInfo(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  prefix?: string,
+  limit = 50,
+  includeAutoImports = true,
+  offset = 0
+): Promise<string> {
+  return formatCompletionsResult(
+    await getCompletionsResult(client, file, line, character, prefix, limit, includeAutoImports, offset)
+  );
+}
+
+function inlayHintLabel(hint: InlayHint): string {
+  return typeof hint.label === 'string' ? hint.label : hint.label.map(part => part.value).join('');
+}
+
+function describeInlayHint(hint: InlayHint): InlayHintsResult['hints'][number] {
+  const label = inlayHintLabel(hint);
+  if (hint.kind === 2) {
+    return { position: hint.position, kind: 'parameter', label: label.replace(/:$/, '') };
+  }
+  if (hint.kind === 1) {
+    return { position: hint.position, kind: 'type', label: label.replace(/^:\s*/, '') };
+  }
+  // Enum member values have no hint kind
+  return { position: hint.position, kind: 'value', label: label.replace(/^=\s*/, '') };
+}
+
+export async function getInlayHintsResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  startLine?: number,
+  endLine?: number,
+  inline = false
+): Promise<InlayHintsResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+
+  const lines = (await client.readDocument(file)).split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  const first = Math.max(startLine ?? 1, 1);
+  const last = Math.min(endLine ?? (startLine ?? lines.length), lines.length);
+
+  const hints: InlayHint[] | null = await client.sendRequest('textDocument/inlayHint', {
+    textDocument: { uri: pathToUri(file) },
+    range: {
+      start: { line: first - 1, character: 0 },
+      end: { line: last - 1, character: lines[last - 1]?.length ?? 0 },
+    },
+  });
+
+  const sorted = [...hints ?? []].sort((a, b) =>
+    a.position.line - b.position.line || a.position.character - b.position.character
+  );
+  const result: InlayHintsResult = { file, startLine: first, endLine: last, hints: sorted.map(describeInlayHint) };
+
+  if (!inline || sorted.length === 0) {
+    return result;
+  }
+
+  // Insert hints from the end of each line so earlier positions stay valid
+  const rendered = lines.slice(first - 1, last);
+  for (const hint of [...sorted].reverse()) {
+    const index = hint.position.line - (first - 1);
+    if (index < 0 || index >= rendered.length) continue;
+    // Type annotations read naturally without the editor's left padding
+    const label = inlayHintLabel(hint);
+    const text = `${hint.paddingLeft && !label.startsWith(':') ? ' ' : ''}${label}${hint.paddingRight ? ' ' : ''}`;
+    const lineText = rendered[index];
+    rendered[index] = lineText.slice(0, hint.position.character) + text + lineText.slice(hint.position.character);
+  }
+
+  result.inlined = rendered.map((text, index) => ({ line: first + index, text }));
+  return result;
+}
+
+export function formatInlayHintsResult(result: InlayHintsResult): string {
+  const { hints } = result;
+  const scope = `${result.file}:${result.startLine}-${result.endLine}`;
+  if (hints.length === 0) {
+    return `No inlay hints in ${scope}`;
+  }
+
+  if (!result.inlined) {
+    const entries = hints.map(hint =>
+      `  ${hint.position.line + 1}:${hint.position.character + 1} ${hint.kind} ${hint.label}`
+    );
+    return `Found ${hints.length} inlay hint${hints.length !== 1 ? 's' : ''} in ${scope}:\n${entries.join('\n')}`;
+  }
+
+  const width = String(result.endLine).length;
+  const source = result.inlined.map(({ line, text }) => `${String(line).padStart(width)} | ${text}`);
+  return `${scope} with ${hints.length} inlay hint${hints.length !== 1 ? 's' : ''} inlined:\n\n${source.join('\n')}`;
+}
+
+export async function getInlayHints(
+  client: TypeScriptLSPClient,
+  file: string,
+  startLine?: number,
+  endLine?: number,
+  inline = false
+): Promise<string> {
+  return formatInlayHintsResult(await getInlayHintsResult(client, file, startLine, endLine, inline));
+}
+
+export async function organizeImportsResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  skipDestructiveActions?: boolean,
+  dryRun = false
+): Promise<OrganizeImportsResult> {
+  try {
+    // Ensure document is open before making request
     await client.ensureDocumentOpen(file);
-    
-    const result = await client.sendRequest('textDocument/implementation', {
-      textDocument: { uri: `file://${file}` },
-      position: { line: line - 1, character },
+
+    const args = skipDestructiveActions !== undefined ?
+      [file, { skipDestructiveCodeActions: skipDestructiveActions }] :
+      [file];
+
+    // The command sends its edit back through workspace/applyEdit; capture it so
+    // it can be previewed and applied through the same path as other edits
+    const { edits } = await client.captureServerEdits(() => client.executeCommand('_typescript.organizeImports', args));
+    if (edits.length === 0) {
+      return { file, dryRun, files: [], diff: '' };
+    }
+
+    const { files, diff } = await client.applyWorkspaceEdit(mergeWorkspaceEdits(edits), { dryRun });
+    return { file, dryRun, files, diff };
+  } catch (error) {
+    throw new Error(`Failed to organize imports: ${(error as Error).message}`);
+  }
+}
+
+export function formatOrganizeImportsResult(result: OrganizeImportsResult): string {
+  if (!result.diff) {
+    return 'Imports are already organized';
+  }
+
+  if (result.dryRun) {
+    return `Dry run: no files were changed. Set dryRun to false to organize imports.\n\n${result.diff}`;
+  }
+
+  return `Imports organized successfully\n\n${result.diff}`;
+}
+
+export async function organizeImports(
+  client: TypeScriptLSPClient,
+  file: string,
+  skipDestructiveActions?: boolean,
+  dryRun = false
+): Promise<string> {
+  try {
+    return formatOrganizeImportsResult(await organizeImportsResult(client, file, skipDestructiveActions, dryRun));
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+function toCodeActionSummary(action: CodeAction): CodeActionSummary {
+  return {
+    title: action.title,
+    kind: action.kind || 'unknown',
+    isPreferred: action.isPreferred,
+    disabledReason: action.disabled?.reason,
+  };
+}
+
+function formatCodeActionList(actions: CodeActionSummary[]): string {
+  return actions
+    .map((action, index) => {
+      let line = `${index + 1}. ${action.title} (${action.kind})`;
+      if (action.isPreferred) line += ' [preferred]';
+      if (action.disabledReason) line += ` [not applicable: ${action.disabledReason}]`;
+      return line;
+    })
+    .join('\n');
+}
+
+function selectCodeAction(actions: CodeAction[], selector: number | string, noun: string): { action: CodeAction } | { error: string } {
+  const available = `Available ${noun}s:\n\n${formatCodeActionList(actions.map(toCodeActionSummary))}`;
+
+  if (typeof selector === 'number') {
+    const action = actions[selector - 1];
+    return action ? { action } : { error: `No ${noun} at index ${selector}. ${available}` };
+  }
+
+  const exact = actions.filter(action => action.title === selector);
+  const matches = exact.length > 0 ? exact : actions.filter(action => action.title.toLowerCase().includes(selector.toLowerCase()));
+  if (matches.length !== 1) {
+    return { error: `${matches.length === 0 ? `No ${noun} matches` : `Multiple ${noun}s match`} '${selector}'. ${available}` };
+  }
+  return { action: matches[0] };
+}
+
+function rangeContains(range: Range, position: Position): boolean {
+  const afterStart = position.line > range.start.line ||
+    (position.line === range.start.line && position.character >= range.start.character);
+  const beforeEnd = position.line < range.end.line ||
+    (position.line === range.end.line && position.character <= range.end.character);
+  return afterStart && beforeEnd;
+}
+
+export async function applyCodeFixesResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  fixKind?: string,
+  fix?: number | string,
+  dryRun = false
+): Promise<CodeFixesResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+
+  // Quick fixes are only offered for the diagnostics passed in the request
+  const position = { line: line - 1, character };
+  const allDiagnostics = await client.waitForDiagnostics(file);
+  const diagnostics = allDiagnostics.filter(d => rangeContains(d.range, position));
+
+  const kind = fixKind ? CODE_FIX_KINDS[fixKind] ?? fixKind : undefined;
+  const codeActions: CodeAction[] = await client.sendRequest<CodeAction[] | null>('textDocument/codeAction', {
+    textDocument: { uri: pathToUri(file) },
+    range: diagnostics.length > 0 ? diagnostics[0].range : { start: position, end: position },
+    context: {
+      diagnostics: kind ? allDiagnostics : diagnostics,
+      only: kind ? [kind] : ['quickfix'],
+    },
+  }) ?? [];
+
+  const result: CodeFixesResult = { fixKind, fixes: codeActions.map(toCodeActionSummary) };
+  if (codeActions.length === 0) {
+    return result;
+  }
+
+  let selected: CodeAction;
+  if (fix !== undefined) {
+    const selection = selectCodeAction(codeActions, fix, 'code fix');
+    if ('error' in selection) {
+      throw new ToolNotice(selection.error);
+    }
+    selected = selection.action;
+  } else if (kind) {
+    selected = codeActions.find(action => action.kind === kind) ?? codeActions[0];
+  } else {
+    return result;
+  }
+
+  // Fix-all actions only get their edit when resolved
+  if (!selected.edit && selected.data !== undefined) {
+    selected = await client.sendRequest<CodeAction>('codeAction/resolve', selected);
+  }
+
+  const edit = selected.edit
+    ? await client.applyWorkspaceEdit(selected.edit, { dryRun })
+    : { applied: false, files: [], diff: '' };
+  result.applied = {
+    title: selected.title,
+    kind: selected.kind || 'unknown',
+    dryRun,
+    command: selected.command?.command,
+    files: edit.files,
+    diff: edit.diff,
+  };
+
+  // A command runs after the edit, and may send further edits back to apply
+  if (selected.command && !dryRun) {
+    const command = selected.command;
+    const { edits } = await client.captureServerEdits(() => client.executeCommand(command.command, command.arguments ?? []));
+    if (edits.length > 0) {
+      const followUp = await client.applyWorkspaceEdit(mergeWorkspaceEdits(edits));
+      result.applied.files.push(...followUp.files.filter(f => !edit.files.includes(f)));
+      result.applied.diff = [edit.diff, followUp.diff].filter(Boolean).join('\n');
+    }
+  }
+
+  return result;
+}
+
+export function formatCodeFixesResult(result: CodeFixesResult): string {
+  const { fixKind, fixes, applied } = result;
+  if (fixes.length === 0) {
+    return fixKind ? `No '${fixKind}' fixes available in this file` : 'No code fixes available at this position';
+  }
+
+  if (!applied) {
+    return `Available code fixes:\n\n${formatCodeActionList(fixes)}\n\nPass fix (an index or title) to apply one.`;
+  }
+
+  if (!applied.diff && !applied.command) {
+    return `Code fix '${applied.title}' produced no changes`;
+  }
+
+  if (applied.dryRun) {
+    let output = `Dry run: no files were changed. Set dryRun to false to apply '${applied.title}'.`;
+    if (applied.command) {
+      output += `\nApplying it also runs the command '${applied.command}'.`;
+    }
+    return applied.diff ? `${output}\n\n${applied.diff}` : output;
+  }
+
+  const fileCount = applied.files.length;
+  return `Applied '${applied.title}' to ${fileCount} file${fileCount !== 1 ? 's' : ''}${applied.diff ? `\n\n${applied.diff}` : ''}`;
+}
+
+export async function applyCodeFixes(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  fixKind?: string,
+  fix?: number | string,
+  dryRun = false
+): Promise<string> {
+  try {
+    return formatCodeFixesResult(await applyCodeFixesResult(client, file, line, character, fixKind, fix, dryRun));
+  } catch (error) {
+    return noticeText(error);
+  }
+}
+
+async function requestRefactorings(client: TypeScriptLSPClient, file: string, range: Range): Promise<CodeAction[]> {
+  const codeActions: CodeAction[] | null = await client.sendRequest('textDocument/codeAction', {
+    textDocument: { uri: pathToUri(file) },
+    range,
+    context: {
+      diagnostics: [],
+      only: ['refactor'],
+    },
+  });
+  return (codeActions ?? []).filter(action => action.kind?.startsWith('refactor'));
+}
+
+function refactoringRange(line: number, character: number, endLine?: number, endCharacter?: number): Range {
+  return {
+    start: { line: line - 1, character },
+    end: { line: (endLine ?? line) - 1, character: endCharacter ?? character },
+  };
+}
+
+export async function listRefactoringsResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  endLine?: number,
+  endCharacter?: number
+): Promise<RefactoringsResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+
+  const range = refactoringRange(line, character, endLine, endCharacter);
+  const refactorings = await requestRefactorings(client, file, range);
+
+  return { range, refactorings: refactorings.map(toCodeActionSummary) };
+}
+
+export function formatRefactoringsResult(result: RefactoringsResult): string {
+  const { range, refactorings } = result;
+  const applicable = refactorings.filter(action => !action.disabledReason);
+  const notApplicable = refactorings.filter(action => action.disabledReason);
+
+  if (applicable.length === 0) {
+    return `No refactorings available at ${formatRange(range)}`;
+  }
+
+  let text = `Available refactorings at ${formatRange(range)}:\n\n${formatCodeActionList(applicable)}`;
+  if (notApplicable.length > 0) {
+    text += `\n\nNot applicable here:\n${notApplicable.map(action => `  ${action.title} - ${action.disabledReason}`).join('\n')}`;
+  }
+
+  return text;
+}
+
+export async function listRefactorings(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  endLine?: number,
+  endCharacter?: number
+): Promise<string> {
+  return formatRefactoringsResult(await listRefactoringsResult(client, file, line, character, endLine, endCharacter));
+}
+
+/**
+ * Collect the refactorings the server offers for each top-level symbol in a file.
+ */
+export async function getRefactoringCatalog(
+  client: TypeScriptLSPClient,
+  file: string
+): Promise<{ symbol: string; range: string; refactorings: RefactoringInfo[] }[]> {
+  await client.ensureDocumentOpen(file);
+
+  const symbols: DocumentSymbol[] | null = await client.sendRequest('textDocument/documentSymbol', {
+    textDocument: { uri: pathToUri(file) },
+  });
+
+  const catalog: { symbol: string; range: string; refactorings: RefactoringInfo[] }[] = [];
+  // Servers answering with flat SymbolInformation have no ranges to ask about
+  for (const symbol of (symbols ?? []).filter(s => 'range' in s)) {
+    const refactorings = await requestRefactorings(client, file, symbol.range);
+    catalog.push({
+      symbol: symbol.name,
+      range: formatRange(symbol.range),
+      refactorings: refactorings
+        .filter(action => !action.disabled)
+        .map(action => ({ title: action.title, kind: action.kind ?? 'refactor' })),
+    });
+  }
+
+  return catalog;
+}
+
+export async function applyRefactoringResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  endLine: number | undefined,
+  endCharacter: number | undefined,
+  refactoring: number | string,
+  dryRun = false
+): Promise<RefactoringResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+
+  const range = refactoringRange(line, character, endLine, endCharacter);
+  const refactorings = await requestRefactorings(client, file, range);
+
+  // Indexes match the numbered list from listRefactorings, which only shows applicable ones
+  const notApplicable = refactorings.find(action => action.disabled && action.title === refactoring);
+  if (notApplicable) {
+    throw new ToolNotice(`Refactoring '${notApplicable.title}' is not applicable: ${notApplicable.disabled?.reason}`);
+  }
+
+  const applicable = refactorings.filter(action => !action.disabled);
+  if (applicable.length === 0) {
+    throw new ToolNotice(`No refactorings available at ${formatRange(range)}`);
+  }
+
+  const selection = selectCodeAction(applicable, refactoring, 'refactoring');
+  if ('error' in selection) {
+    throw new ToolNotice(selection.error);
+  }
+
+  let selected = selection.action;
+  if (selected.command?.command === '_typescript.selectRefactoring') {
+    throw new ToolNotice(`Refactoring '${selected.title}' needs an interactive choice and cannot be applied here`);
+  }
+  if (!selected.edit && selected.data !== undefined) {
+    selected = await client.sendRequest<CodeAction>('codeAction/resolve', selected);
+  }
+
+  // Refactorings usually arrive as a command that sends its edit back to the client
+  const edits: WorkspaceEdit[] = selected.edit ? [selected.edit] : [];
+  let renameLocation: TextDocumentPositionParams | undefined;
+  if (selected.command) {
+    const command = selected.command;
+    const captured = await client.captureServerEdits(() => client.executeCommand(command.command, command.arguments ?? []));
+    edits.push(...captured.edits);
+    renameLocation = captured.renameLocations[0];
+  }
+
+  const result: RefactoringResult = {
+    title: selected.title,
+    kind: selected.kind ?? 'refactor',
+    dryRun,
+    changed: false,
+    files: [],
+    diff: '',
+  };
+  if (edits.length === 0) {
+    return result;
+  }
+
+  const edit = mergeWorkspaceEdits(edits);
+
+  // Refactorings that move code to a new file make the server create it empty up front;
+  // remove it again so the edit creates it, and dry runs leave nothing behind
+  const createdFiles: CreateFile[] = [];
+  for (const change of edit.documentChanges ?? []) {
+    if ('kind' in change) continue;
+    const path = uriToPath(change.textDocument.uri);
+    const insertsOnly = change.edits.every(e => e.range.start.line === 0 && e.range.start.character === 0 && e.range.end.line === 0 && e.range.end.character === 0);
+    if (insertsOnly && !client.isDocumentOpen(path) && (await readFileOrNull(path)) === '') {
+      await rm(path, { force: true });
+      createdFiles.push({ kind: 'create', uri: change.textDocument.uri });
+    }
+  }
+  edit.documentChanges = [...createdFiles, ...(edit.documentChanges ?? [])];
+
+  const { files, diff } = await client.applyWorkspaceEdit(edit, { dryRun });
+  Object.assign(result, { changed: true, files, diff });
+
+  if (renameLocation) {
+    const { textDocument, position } = renameLocation;
+    result.renameLocation = { uri: textDocument.uri, range: { start: position, end: position } };
+  }
+
+  return result;
+}
+
+export function formatRefactoringResult(result: RefactoringResult): string {
+  if (!result.changed) {
+    return `Refactoring '${result.title}' produced no changes`;
+  }
+
+  let output = `Refactoring '${result.title}' (${result.kind})`;
+  output += result.dryRun
+    ? '\nDry run: no files were changed. Set dryRun to false to apply the refactoring.'
+    : `\nApplied to ${result.files.length} file${result.files.length !== 1 ? 's' : ''}.`;
+
+  if (result.renameLocation) {
+    output += `\nRename location: ${formatLocation(result.renameLocation)}`;
+  }
+
+  return result.diff ? `${output}\n\n${result.diff}` : output;
+}
+
+export async function applyRefactoring(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  endLine: number | undefined,
+  endCharacter: number | undefined,
+  refactoring: number | string,
+  dryRun = false
+): Promise<string> {
+  try {
+    return formatRefactoringResult(
+      await applyRefactoringResult(client, file, line, character, endLine, endCharacter, refactoring, dryRun)
+    );
+  } catch (error) {
+    return noticeText(error);
+  }
+}
+
+
+export async function renameSymbolResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  newName: string,
+  dryRun = true
+): Promise<RenameResult> {
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+
+  const position = { line: line - 1, character };
+
+  let prepared: Range | { range: Range; placeholder: string } | null;
+  try {
+    prepared = await client.sendRequest('textDocument/prepareRename', {
+      textDocument: { uri: pathToUri(file) },
+      position,
     } as TextDocumentPositionParams);
+  } catch (error) {
+    throw new ToolNotice(`This symbol cannot be renamed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!prepared) {
+    throw new ToolNotice('This symbol cannot be renamed');
+  }
+
+  const edit: WorkspaceEdit | null = await client.sendRequest('textDocument/rename', {
+    textDocument: { uri: pathToUri(file) },
+    position,
+    newName,
+  });
+
+  // Merge both WorkspaceEdit shapes into edits per file
+  const editsByUri = new Map<string, TextEdit[]>();
+  for (const [uri, edits] of Object.entries(edit?.changes ?? {})) {
+    editsByUri.set(uri, [...(editsByUri.get(uri) ?? []), ...edits]);
+  }
+  for (const change of edit?.documentChanges ?? []) {
+    if ('kind' in change) continue;
+    const uri = change.textDocument.uri;
+    editsByUri.set(uri, [...(editsByUri.get(uri) ?? []), ...change.edits]);
+  }
+
+  const result: RenameResult = { newName, dryRun, totalEdits: 0, files: [] };
+  if (editsByUri.size === 0) {
+    return result;
+  }
+
+  if ('placeholder' in prepared) {
+    result.oldName = prepared.placeholder;
+  } else {
+    const source = await client.readDocument(file);
+    result.oldName = source.slice(positionToOffset(source, prepared.start), positionToOffset(source, prepared.end));
+  }
+
+  for (const [uri, edits] of editsByUri) {
+    const path = uriToPath(uri);
+    const content = await client.readDocument(path);
+
+    result.totalEdits += edits.length;
+    result.files.push({
+      file: path,
+      edits: edits.map(e => ({
+        range: e.range,
+        oldText: content.slice(positionToOffset(content, e.range.start), positionToOffset(content, e.range.end)),
+        newText: e.newText,
+      })),
+    });
+  }
+
+  if (!dryRun) {
+    result.appliedFiles = (await client.applyWorkspaceEdit(edit as WorkspaceEdit)).files;
+  }
+
+  return result;
+}
+
+export function formatRenameResult(result: RenameResult): string {
+  const { oldName, newName, totalEdits, files } = result;
+  if (files.length === 0) {
+    return 'No rename edits produced for this symbol';
+  }
+
+  let text = `Rename ${oldName ? `'${oldName}' ` : ''}to '${newName}': ${totalEdits} edit${totalEdits !== 1 ? 's' : ''} in ${files.length} file${files.length !== 1 ? 's' : ''}\n`;
+
+  for (const { file, edits } of files) {
+    text += `\n${file} (${edits.length} edit${edits.length !== 1 ? 's' : ''})`;
+    text += edits
+      .map(e => `\n  ${e.range.start.line + 1}:${e.range.start.character + 1} ${e.oldText} -> ${e.newText}`)
+      .join('');
+  }
+
+  if (!result.appliedFiles) {
+    return `${text}\n\nDry run: no files were changed. Set dryRun to false to apply the rename.`;
+  }
+
+  const applied = result.appliedFiles.length;
+  return `${text}\n\nRename applied to ${applied} file${applied !== 1 ? 's' : ''}.`;
+}
+
+export async function renameSymbol(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  newName: string,
+  dryRun = true
+): Promise<string> {
+  try {
+    return formatRenameResult(await renameSymbolResult(client, file, line, character, newName, dryRun));
+  } catch (error) {
+    return noticeText(error);
+  }
+}
+
+export async function moveFileResult(
+  client: TypeScriptLSPClient,
+  source: string,
+  destination: string,
+  dryRun = false
+): Promise<MoveFileResult> {
+  let sourceIsDirectory: boolean;
+  try {
+    sourceIsDirectory = (await stat(source)).isDirectory();
+  } catch {
+    throw new ToolNotice(`Cannot move ${source}: it does not exist`);
+  }
+
+  if (await stat(destination).then(() => true, () => false)) {
+    throw new ToolNotice(`Cannot move ${source} to ${destination}: destination already exists`);
+  }
+
+  // The server only computes import updates for projects it has loaded
+  const anchor = sourceIsDirectory
+    ? (await walkWorkspace(source, name => /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/.test(name)))[0]
+    : source;
+  if (anchor) {
+    await client.ensureDocumentOpen(anchor);
+  }
+
+  const files = [{ oldUri: pathToUri(source), newUri: pathToUri(destination) }];
+  const importUpdates: WorkspaceEdit | null = await client.sendRequest('workspace/willRenameFiles', { files });
+
+  // Import updates are expressed against the current paths, so they go before the move
+  const edit = mergeWorkspaceEdits(importUpdates ? [importUpdates] : []);
+  const updateCount = (edit.documentChanges ?? []).reduce((sum, change) => sum + ('edits' in change ? change.edits.length : 0), 0);
+  const updatedFiles = new Set((edit.documentChanges ?? []).flatMap(change => 'edits' in change && change.edits.length > 0 ? [uriToPath(change.textDocument.uri)] : []));
+  edit.documentChanges = [...(edit.documentChanges ?? []), { kind: 'rename', oldUri: files[0].oldUri, newUri: files[0].newUri }];
+
+  const result = await client.applyWorkspaceEdit(edit, { dryRun });
+
+  if (!dryRun) {
+    await client.sendNotification('workspace/didRenameFiles', { files });
+  }
+
+  return {
+    source,
+    destination,
+    directory: sourceIsDirectory,
+    dryRun,
+    importUpdates: updateCount,
+    updatedFiles: Array.from(updatedFiles),
+    diff: result.diff,
+  };
+}
+
+export function formatMoveFileResult(result: MoveFileResult): string {
+  const { importUpdates, updatedFiles } = result;
+  let output = `Move ${result.directory ? 'directory' : 'file'} ${result.source} to ${result.destination}: `;
+  output += `${importUpdates} import update${importUpdates !== 1 ? 's' : ''} in ${updatedFiles.length} file${updatedFiles.length !== 1 ? 's' : ''}`;
+
+  output += result.dryRun
+    ? '\nDry run: no files were changed. Set dryRun to false to move.'
+    : '\nMoved.';
+
+  return result.diff ? `${output}\n\n${result.diff}` : output;
+}
+
+export async function moveFile(
+  client: TypeScriptLSPClient,
+  source: string,
+  destination: string,
+  dryRun = false
+): Promise<string> {
+  try {
+    return formatMoveFileResult(await moveFileResult(client, source, destination, dryRun));
+  } catch (error) {
+    return noticeText(error);
+  }
+}
 
-    if (!result || (Array.isArray(result) && result.length === 0)) {
-      return 'No implementations found at this position';
+// Convert a glob pattern (*, **, ?, {a,b}, [abc]) to a regular expression over '/'-separated paths
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let inBraces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // '**/' also matches no directory at all
+        pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+        i += glob[i + 2] === '/' ? 2 : 1;
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      inBraces++;
+      pattern += '(?:';
+    } else if (char === '}' && inBraces > 0) {
+      inBraces--;
+      pattern += ')';
+    } else if (char === ',' && inBraces > 0) {
+      pattern += '|';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i);
+      if (end === -1) {
+        pattern += '\\[';
+      } else {
+        pattern += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else {
+      pattern += char.replace(/[.+^$()|\\/]/g, '\\$&');
     }
+  }
+  return new RegExp(`^${pattern}$`);
+}
 
-    const locations: Location[] = Array.isArray(result) ? result : [result];
-    
-    const implementations = locations.map(loc => {
-      const path = formatLocation(loc);
-      return `Implementation found at: ${path}`;
-    });
+/**
+ * Resolve the .editorconfig settings for a file, walking up from its directory
+ * until a file marked root = true or the filesystem root.
+ */
+async function readEditorConfig(file: string): Promise<{ [key: string]: string }> {
+  const configs: { dir: string; content: string }[] = [];
+  let dir = dirname(file);
+  while (true) {
+    const content = await readFileOrNull(join(dir, '.editorconfig'));
+    if (content !== null) {
+      configs.unshift({ dir, content });
+      if (/^\s*root\s*=\s*true\s*$/im.test(content)) break;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
 
-    return implementations.join('\n\n');
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    if (errorMessage.includes('Debug Failure') || errorMessage.includes('False expression')) {
-      return 'Implementations not available at this position (position calculation error)';
+  // Closer files and later sections take precedence
+  const settings: { [key: string]: string } = {};
+  for (const { dir, content } of configs) {
+    const relativePath = file.slice(dir.length + 1);
+    let matches = false;
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+      const section = line.match(/^\[(.*)\]$/);
+      if (section) {
+        const glob = section[1].includes('/') ? section[1].replace(/^\//, '') : `**/${section[1]}`;
+        matches = globToRegExp(glob).test(relativePath);
+        continue;
+      }
+
+      const property = line.match(/^([^=:]+?)\s*[=:]\s*(.*)$/);
+      if (matches && property) {
+        settings[property[1].toLowerCase()] = property[2].toLowerCase();
+      }
     }
-    return `Implementations error: ${errorMessage}`;
   }
+  return settings;
 }
 
-export async function getDiagnostics(
-  client: TypeScriptLSPClient,
-  file?: string,
-  _severity?: string
-): Promise<string> {
-  // Trigger diagnostics refresh
-  if (file) {
-    // Ensure document is open before making request
-    await client.ensureDocumentOpen(file);
-    
-    await client.sendRequest('textDocument/diagnostic', {
-      textDocument: { uri: `file://${file}` },
-    });
+function editorConfigToFormatOptions(settings: { [key: string]: string }): FormatOptions {
+  const options: FormatOptions = {};
+  if (settings.indent_style === 'space' || settings.indent_style === 'tab') {
+    options.insertSpaces = settings.indent_style === 'space';
+  }
+  const tabWidth = Number.parseInt(settings.tab_width ?? '', 10);
+  const indentSize = settings.indent_size === 'tab' ? tabWidth : Number.parseInt(settings.indent_size ?? '', 10);
+  if (!Number.isNaN(indentSize)) {
+    options.indentSize = indentSize;
+    options.tabSize = Number.isNaN(tabWidth) ? indentSize : tabWidth;
+  } else if (!Number.isNaN(tabWidth)) {
+    options.tabSize = tabWidth;
+  }
+  if (settings.end_of_line === 'crlf' || settings.end_of_line === 'lf') {
+    options.newLineCharacter = settings.end_of_line === 'crlf' ? '\r\n' : '\n';
   }
+  if (settings.quote_type === 'single' || settings.quote_type === 'double' || settings.quote_type === 'auto') {
+    options.quoteStyle = settings.quote_type;
+  }
+  return options;
+}
 
-  // In a real implementation, we would need to collect diagnostics
-  // from the textDocument/publishDiagnostics notifications
-  // For now, return a placeholder
-  return 'Diagnostics collection requires notification handling (not implemented in this example)';
+function containsUnescaped(text: string, char: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === char) {
+      return true;
+    }
+  }
+  return false;
 }
 
+/**
+ * Rewrite the quotes of the string literals starting within the given lines
+ * (0-based, inclusive). tsserver's formatter never touches quotes, since its
+ * quotePreference only applies to code it generates. JSX attributes and strings
+ * that would need more escapes with the other quote are left alone.
+ */
+async function requoteStringLiterals(file: string, content: string, quote: "'" | '"', startLine = 0, endLine = Number.POSITIVE_INFINITY): Promise<string> {
+  const ts = (await import('typescript')).default;
+  const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true);
+
+  const replacements: { start: number; end: number; text: string }[] = [];
+  const visit = (node: import('typescript').Node): void => {
+    if (ts.isStringLiteral(node) && !ts.isJsxAttribute(node.parent)) {
+      const start = node.getStart(sourceFile);
+      const line = sourceFile.getLineAndCharacterOfPosition(start).line;
+      const raw = content.slice(start, node.end);
+      const inner = raw.slice(1, -1);
+      if (line >= startLine && line <= endLine && raw[0] !== quote && !containsUnescaped(inner, quote)) {
+        const unescaped = inner.replace(/\\([\s\S])/g, (sequence, char: string) => char === raw[0] ? char : sequence);
+        replacements.push({ start, end: node.end, text: `${quote}${unescaped}${quote}` });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
 
-export async function getSignatureHelp(
+  let result = content;
+  for (const { start, end, text } of replacements.reverse()) {
+    result = result.slice(0, start) + text + result.slice(end);
+  }
+  return result;
+}
+
+export async function formatFileResult(
   client: TypeScriptLSPClient,
   file: string,
-  line: number,
-  character: number
-): Promise<string> {
+  options: FormatOptions = {},
+  line?: number,
+  endLine?: number,
+  dryRun = false
+): Promise<FormatResult> {
   // Ensure document is open before making request
   await client.ensureDocumentOpen(file);
-  
-  const result = await client.sendRequest('textDocument/signatureHelp', {
-    textDocument: { uri: `file://${file}` },
-    position: { line: line - 1, character },
-  } as TextDocumentPositionParams);
 
-  if (!result || typeof result !== 'object' || !('signatures' in result)) {
-    return 'No signature help available at this position';
+  // Explicit options win over .editorconfig, which wins over TypeScript's defaults
+  const editorConfig = editorConfigToFormatOptions(await readEditorConfig(file));
+  const { quoteStyle, ...formatOptions } = { tabSize: 4, insertSpaces: true, ...editorConfig, ...options };
+  if (options.tabSize !== undefined && options.indentSize === undefined) {
+    formatOptions.indentSize = options.tabSize;
   }
 
-  const signatureResult = result as { signatures: unknown[] };
-  
-  if (!Array.isArray(signatureResult.signatures) || signatureResult.signatures.length === 0) {
-    return 'No signatures found';
+  const textDocument = { uri: pathToUri(file) };
+  const edits: TextEdit[] | null = line !== undefined
+    ? await client.sendRequest('textDocument/rangeFormatting', {
+      textDocument,
+      range: { start: { line: line - 1, character: 0 }, end: { line: endLine ?? line, character: 0 } },
+      options: { ...formatOptions, quotePreference: quoteStyle },
+    })
+    : await client.sendRequest('textDocument/formatting', { textDocument, options: { ...formatOptions, quotePreference: quoteStyle } });
+
+  // Quotes are rewritten here, as a single edit of the whole formatted document
+  let formatEdits = edits ?? [];
+  if (quoteStyle === 'single' || quoteStyle === 'double') {
+    const original = await client.readDocument(file);
+    const formatted = applyTextEdits(original, formatEdits);
+    const requoted = await requoteStringLiterals(file, formatted, quoteStyle === 'single' ? "'" : '"', line !== undefined ? line - 1 : undefined, line !== undefined ? (endLine ?? line) - 1 : undefined);
+    if (requoted !== formatted) {
+      formatEdits = [{ range: { start: { line: 0, character: 0 }, end: offsetToPosition(original, original.length) }, newText: requoted }];
+    }
   }
 
-  const signatures = signatureResult.signatures.map((sig: unknown, index: number) => {
-    const signature = sig as { label?: string; documentation?: string; parameters?: unknown[] };
-    let result = `Signature ${index + 1}: ${signature.label || 'Unknown'}`;
-    
-    if (signature.documentation) {
-      result += `\n  Documentation: ${signature.documentation}`;
-    }
-    
-    if (signature.parameters && Array.isArray(signature.parameters)) {
-      result += '\n  Parameters:';
-      signature.parameters.forEach((param: unknown, paramIndex: number) => {
-        const parameter = param as { label?: string; documentation?: string };
-        result += `\n    ${paramIndex + 1}. ${parameter.label || 'Unknown'}`;
-        if (parameter.documentation) {
-          result += ` - ${parameter.documentation}`;
-        }
-      });
-    }
-    
-    return result;
-  });
+  const result = await client.applyWorkspaceEdit({ changes: { [textDocument.uri]: formatEdits } }, { dryRun });
 
-  return signatures.join('\n\n');
+  return { file, startLine: line, endLine: line !== undefined ? endLine ?? line : undefined, dryRun, diff: result.diff };
 }
 
+export function formatFormatResult(result: FormatResult): string {
+  const { file, diff } = result;
+  const scope = result.startLine !== undefined ? ` (lines ${result.startLine}-${result.endLine})` : '';
 
-export async function organizeImports(
-  client: TypeScriptLSPClient,
-  file: string,
-  skipDestructiveActions?: boolean
-): Promise<string> {
-  try {
-    // Ensure document is open before making request
-    await client.ensureDocumentOpen(file);
-    
-    const args = skipDestructiveActions !== undefined ? 
-      [file, { skipDestructiveCodeActions: skipDestructiveActions }] : 
-      [file];
+  if (!diff) {
+    return `${file}${scope} is already formatted`;
+  }
 
-    await client.executeCommand('_typescript.organizeImports', args);
-    return 'Imports organized successfully';
-  } catch (error) {
-    return `Failed to organize imports: ${(error as Error).message}`;
+  if (result.dryRun) {
+    return `Dry run: no files were changed. Set dryRun to false to format ${file}${scope}.\n\n${diff}`;
   }
+
+  return `Formatted ${file}${scope}\n\n${diff}`;
 }
 
-export async function applyCodeFixes(
+export async function formatFile(
   client: TypeScriptLSPClient,
   file: string,
-  line: number,
-  character: number,
-  fixKind?: string
+  options: FormatOptions = {},
+  line?: number,
+  endLine?: number,
+  dryRun = false
 ): Promise<string> {
-  // Ensure document is open before making request
-  await client.ensureDocumentOpen(file);
-  
-  const codeActions: CodeAction[] = await client.sendRequest('textDocument/codeAction', {
-    textDocument: { uri: `file://${file}` },
-    range: {
-      start: { line: line - 1, character },
-      end: { line: line - 1, character },
-    },
-    context: {
-      diagnostics: [],
-      only: fixKind ? [fixKind] : undefined,
-    },
-  });
-
-  if (!codeActions || codeActions.length === 0) {
-    return 'No code fixes available at this position';
-  }
-
-  const fixes = codeActions.map((action, index) => {
-    const kind = action.kind || 'unknown';
-    return `${index + 1}. ${action.title} (${kind})`;
-  });
-
-  return `Available code fixes:\n\n${fixes.join('\n')}`;
+  return formatFormatResult(await formatFileResult(client, file, options, line, endLine, dryRun));
 }
 
+function toSymbolEntry(file: string, symbol: DocumentSymbol, hierarchical: boolean): SymbolEntry {
+  return {
+    name: symbol.name,
+    kind: formatSymbolKind(symbol.kind),
+    location: { uri: pathToUri(file), range: symbol.range },
+    detail: symbol.detail,
+    children: hierarchical && symbol.children && symbol.children.length > 0
+      ? symbol.children.map(child => toSymbolEntry(file, child, hierarchical))
+      : undefined,
+  };
+}
 
-export async function listSymbols(
+export async function listSymbolsResult(
   client: TypeScriptLSPClient,
   file?: string,
   kind?: string,
-  hierarchical: boolean = false
-): Promise<string> {
+  hierarchical = false,
+  options: PageOptions = {}
+): Promise<SymbolsResult> {
   if (!file) {
     // Workspace symbols
-    return await findSymbol(client, '', kind, true);
+    return await findSymbolResult(client, '', kind, true, options);
   }
 
   // Document symbols
@@ -1180,236 +5046,286 @@ export async function listSymbols(
   await client.ensureDocumentOpen(file);
   
   const result = await client.sendRequest('textDocument/documentSymbol', {
-    textDocument: { uri: `file://${file}` },
+    textDocument: { uri: pathToUri(file) },
   });
 
-  if (!result || (Array.isArray(result) && result.length === 0)) {
-    return 'No symbols found in this document';
-  }
-
-  if (!Array.isArray(result)) {
-    return 'Invalid symbol data received';
-  }
-
-  const formatDocumentSymbol = (symbol: DocumentSymbol, indent: string = ''): string => {
-    const symbolKind = formatSymbolKind(symbol.kind);
-    const range = formatRange(symbol.range);
-    let result = `${indent}${symbol.name} (${symbolKind}) - ${range}`;
-    
-    if (symbol.detail) {
-      result += ` - ${symbol.detail}`;
-    }
-
-    if (hierarchical && symbol.children && symbol.children.length > 0) {
-      result += `\n${symbol.children
-        .map(child => formatDocumentSymbol(child, `${indent}  `))
-        .join('\n')}`;
-    }
-
-    return result;
-  };
+  // Servers answering with flat SymbolInformation have no hierarchy to report
+  const symbols: DocumentSymbol[] = Array.isArray(result) ? result.filter(symbol => 'range' in symbol) : [];
+  const { items, page } = paginate(symbols, options);
+  return { file, symbols: items.map(symbol => toSymbolEntry(file, symbol, hierarchical)), page };
+}
 
-  const symbols: DocumentSymbol[] = result;
-  const formatted = symbols.map(s => formatDocumentSymbol(s)).join('\n\n');
+export async function listSymbols(
+  client: TypeScriptLSPClient,
+  file?: string,
+  kind?: string,
+  hierarchical = false,
+  options: PageOptions = {}
+): Promise<string> {
+  return formatSymbolsResult(await listSymbolsResult(client, file, kind, hierarchical, options));
+}
 
-  return `Document symbols:\n\n${formatted}`;
+function toHierarchyNode(item: CallHierarchyItem | TypeHierarchyItem): HierarchyNode {
+  return { name: item.name, kind: formatSymbolKind(item.kind), location: { uri: item.uri, range: item.range } };
 }
 
-export async function getCallHierarchy(
+export async function getCallHierarchyResult(
   client: TypeScriptLSPClient,
   file: string,
   line: number,
   character: number,
   direction: 'incoming' | 'outgoing' | 'both' = 'both'
-): Promise<string> {
+): Promise<CallHierarchyResult> {
   // Ensure document is open before making request
   await client.ensureDocumentOpen(file);
   
   // Prepare call hierarchy
   const items: CallHierarchyItem[] = await client.sendRequest('textDocument/prepareCallHierarchy', {
-    textDocument: { uri: `file://${file}` },
+    textDocument: { uri: pathToUri(file) },
     position: { line: line - 1, character },
   } as TextDocumentPositionParams);
 
   if (!items || items.length === 0) {
-    return 'No call hierarchy available at this position';
+    return { item: null };
   }
 
   const item = items[0];
-  let result = `Call hierarchy for ${item.name} (${formatSymbolKind(item.kind)}):\n`;
+  const result: CallHierarchyResult = { item: toHierarchyNode(item) };
 
   if (direction === 'incoming' || direction === 'both') {
-    const incoming: CallHierarchyIncomingCall[] = await client.sendRequest(
+    const incoming: CallHierarchyIncomingCall[] | null = await client.sendRequest(
       'callHierarchy/incomingCalls',
       { item }
     );
-
-    if (incoming && incoming.length > 0) {
-      result += '\n\nIncoming calls:\n';
-      result += incoming.map(call => {
-        const from = formatLocation({ uri: call.from.uri, range: call.from.range });
-        return `  ${call.from.name} - ${from}`;
-      }).join('\n');
-    } else {
-      result += '\n\nNo incoming calls found';
-    }
+    result.incoming = (incoming ?? []).map(call => toHierarchyNode(call.from));
   }
 
   if (direction === 'outgoing' || direction === 'both') {
-    const outgoing: CallHierarchyOutgoingCall[] = await client.sendRequest(
+    const outgoing: CallHierarchyOutgoingCall[] | null = await client.sendRequest(
       'callHierarchy/outgoingCalls',
       { item }
     );
-
-    if (outgoing && outgoing.length > 0) {
-      result += '\n\nOutgoing calls:\n';
-      result += outgoing.map(call => {
-        const to = formatLocation({ uri: call.to.uri, range: call.to.range });
-        return `  ${call.to.name} - ${to}`;
-      }).join('\n');
-    } else {
-      result += '\n\nNo outgoing calls found';
-    }
+    result.outgoing = (outgoing ?? []).map(call => toHierarchyNode(call.to));
   }
 
   return result;
 }
 
-export async function getTypeHierarchy(
+export function formatCallHierarchyResult(result: CallHierarchyResult): string {
+  const { item, incoming, outgoing } = result;
+  if (!item) {
+    return 'No call hierarchy available at this position';
+  }
+
+  let text = `Call hierarchy for ${item.name} (${item.kind}):\n`;
+
+  if (incoming) {
+    text += incoming.length > 0
+      ? `\n\nIncoming calls:\n${incoming.map(call => `  ${call.name} - ${formatLocation(call.location)}`).join('\n')}`
+      : '\n\nNo incoming calls found';
+  }
+
+  if (outgoing) {
+    text += outgoing.length > 0
+      ? `\n\nOutgoing calls:\n${outgoing.map(call => `  ${call.name} - ${formatLocation(call.location)}`).join('\n')}`
+      : '\n\nNo outgoing calls found';
+  }
+
+  return text;
+}
+
+export async function getCallHierarchy(
   client: TypeScriptLSPClient,
   file: string,
   line: number,
   character: number,
-  direction: 'supertypes' | 'subtypes' | 'both' = 'both'
+  direction: 'incoming' | 'outgoing' | 'both' = 'both'
 ): Promise<string> {
+  return formatCallHierarchyResult(await getCallHierarchyResult(client, file, line, character, direction));
+}
+
+export async function getTypeHierarchyResult(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  direction: 'supertypes' | 'subtypes' | 'both' = 'both'
+): Promise<TypeHierarchyResult> {
+  let items: TypeHierarchyItem[] | null;
   try {
     // Ensure document is open before making request
     await client.ensureDocumentOpen(file);
     
     // Prepare type hierarchy
-    const items: TypeHierarchyItem[] = await client.sendRequest('textDocument/prepareTypeHierarchy', {
-      textDocument: { uri: `file://${file}` },
+    items = await client.sendRequest('textDocument/prepareTypeHierarchy', {
+      textDocument: { uri: pathToUri(file) },
       position: { line: line - 1, character },
     } as TextDocumentPositionParams);
-
-    if (!items || items.length === 0) {
-      return 'No type hierarchy available at this position';
+  } catch (error) {
+    if (isMethodNotFound(error)) {
+      throw new Error('Type hierarchy not supported by this TypeScript Language Server version');
     }
+    if (error instanceof ResponseError) {
+      throw new Error(`Type hierarchy error: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (!items || items.length === 0) {
+    return { item: null, unavailable: [] };
+  }
 
-    const item = items[0];
-    let result = `Type hierarchy for ${item.name} (${formatSymbolKind(item.kind)}):\n`;
+  const item = items[0];
+  const result: TypeHierarchyResult = { item: toHierarchyNode(item), unavailable: [] };
 
-    if (direction === 'supertypes' || direction === 'both') {
-      try {
-        const supertypes: TypeHierarchyItem[] = await client.sendRequest(
-          'typeHierarchy/supertypes',
-          { item }
-        );
-
-        if (supertypes && supertypes.length > 0) {
-          result += '\n\nSupertypes:\n';
-          result += supertypes.map(type => {
-            const location = formatLocation({ uri: type.uri, range: type.range });
-            return `  ${type.name} (${formatSymbolKind(type.kind)}) - ${location}`;
-          }).join('\n');
-        } else {
-          result += '\n\nNo supertypes found';
-        }
-      } catch (_error) {
-        result += '\n\nSupertypes not available';
+  const directions = direction === 'both' ? ['supertypes', 'subtypes'] as const : [direction];
+  for (const related of directions) {
+    try {
+      const types: TypeHierarchyItem[] | null = await client.sendRequest(`typeHierarchy/${related}`, { item });
+      result[related] = (types ?? []).map(toHierarchyNode);
+    } catch (error) {
+      if (!isMethodNotFound(error)) {
+        throw error;
       }
+      result.unavailable.push(related);
     }
+  }
 
-    if (direction === 'subtypes' || direction === 'both') {
-      try {
-        const subtypes: TypeHierarchyItem[] = await client.sendRequest(
-          'typeHierarchy/subtypes',
-          { item }
-        );
-
-        if (subtypes && subtypes.length > 0) {
-          result += '\n\nSubtypes:\n';
-          result += subtypes.map(type => {
-            const location = formatLocation({ uri: type.uri, range: type.range });
-            return `  ${type.name} (${formatSymbolKind(type.kind)}) - ${location}`;
-          }).join('\n');
-        } else {
-          result += '\n\nNo subtypes found';
-        }
-      } catch (_error) {
-        result += '\n\nSubtypes not available';
-      }
+  return result;
+}
+
+export function formatTypeHierarchyResult(result: TypeHierarchyResult): string {
+  const { item } = result;
+  if (!item) {
+    return 'No type hierarchy available at this position';
+  }
+
+  let text = `Type hierarchy for ${item.name} (${item.kind}):\n`;
+
+  for (const [related, label] of [['supertypes', 'Supertypes'], ['subtypes', 'Subtypes']] as const) {
+    const types = result[related];
+    if (result.unavailable.includes(related)) {
+      text += `\n\n${label} not available`;
+    } else if (types && types.length > 0) {
+      text += `\n\n${label}:\n`;
+      text += types.map(type => `  ${type.name} (${type.kind}) - ${formatLocation(type.location)}`).join('\n');
+    } else if (types) {
+      text += `\n\nNo ${related} found`;
     }
+  }
 
-    return result;
+  return text;
+}
+
+export async function getTypeHierarchy(
+  client: TypeScriptLSPClient,
+  file: string,
+  line: number,
+  character: number,
+  direction: 'supertypes' | 'subtypes' | 'both' = 'both'
+): Promise<string> {
+  try {
+    return formatTypeHierarchyResult(await getTypeHierarchyResult(client, file, line, character, direction));
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    if (errorMessage.includes('Unhandled method')) {
-      return 'Type hierarchy not supported by this TypeScript Language Server version';
-    }
-    return `Type hierarchy error: ${errorMessage}`;
+    return (error as Error).message;
   }
 }
 
-export async function analyzeImports(
+export async function analyzeImportsResult(
   client: TypeScriptLSPClient,
   file?: string,
-  showUnused: boolean = false,
-  showMissing: boolean = false,
-  _includeNodeModules: boolean = false
-): Promise<string> {
+  showUnused = false,
+  showMissing = false,
+  _includeNodeModules = false
+): Promise<ImportAnalysisResult> {
   // Use code actions to find import-related issues
-  let result = 'Import analysis:\n\n';
+  const result: ImportAnalysisResult = { file, organize: [] };
+  if (!file) {
+    return result;
+  }
 
-  if (file) {
-    // Ensure document is open before making request
-    await client.ensureDocumentOpen(file);
-    
-    // Get code actions for the file
-    const codeActions: CodeAction[] = await client.sendRequest('textDocument/codeAction', {
-      textDocument: { uri: `file://${file}` },
-      range: {
-        start: { line: 0, character: 0 },
-        end: { line: 1000, character: 0 }, // Cover most of the file
-      },
-      context: {
-        diagnostics: [],
-        only: ['source.organizeImports', 'source.removeUnused', 'source.addMissingImports'],
-      },
-    });
+  // Ensure document is open before making request
+  await client.ensureDocumentOpen(file);
+  
+  // Get code actions for the file
+  const codeActions: CodeAction[] = await client.sendRequest('textDocument/codeAction', {
+    textDocument: { uri: pathToUri(file) },
+    range: {
+      start: { line: 0, character: 0 },
+      end: { line: 1000, character: 0 }, // Cover most of the file
+    },
+    context: {
+      diagnostics: [],
+      only: ['source.organizeImports', 'source.removeUnused', 'source.addMissingImports'],
+    },
+  });
 
-    if (showUnused) {
-      const unusedActions = codeActions.filter(action => 
-        action.kind?.includes('removeUnused') || action.title.toLowerCase().includes('unused')
-      );
-      if (unusedActions.length > 0) {
-        result += 'Unused imports detected:\n';
-        result += unusedActions.map(action => `- ${action.title}`).join('\n');
-        result += '\n\n';
-      }
-    }
+  if (showUnused) {
+    result.unused = codeActions
+      .filter(action => action.kind?.includes('removeUnused') || action.title.toLowerCase().includes('unused'))
+      .map(action => action.title);
+  }
 
-    if (showMissing) {
-      const missingActions = codeActions.filter(action => 
-        action.kind?.includes('addMissingImports') || action.title.toLowerCase().includes('missing')
-      );
-      if (missingActions.length > 0) {
-        result += 'Missing imports detected:\n';
-        result += missingActions.map(action => `- ${action.title}`).join('\n');
-        result += '\n\n';
-      }
-    }
+  if (showMissing) {
+    result.missing = codeActions
+      .filter(action => action.kind?.includes('addMissingImports') || action.title.toLowerCase().includes('missing'))
+      .map(action => action.title);
+  }
 
-    const organizeActions = codeActions.filter(action => 
-      action.kind?.includes('organizeImports')
-    );
-    if (organizeActions.length > 0) {
-      result += 'Import organization available:\n';
-      result += organizeActions.map(action => `- ${action.title}`).join('\n');
-    }
+  result.organize = codeActions
+    .filter(action => action.kind?.includes('organizeImports'))
+    .map(action => action.title);
+
+  return result;
+}
+
+export function formatImportAnalysisResult(result: ImportAnalysisResult): string {
+  let text = 'Import analysis:\n\n';
+
+  if (result.unused && result.unused.length > 0) {
+    text += `Unused imports detected:\n${result.unused.map(title => `- ${title}`).join('\n')}\n\n`;
+  }
+
+  if (result.missing && result.missing.length > 0) {
+    text += `Missing imports detected:\n${result.missing.map(title => `- ${title}`).join('\n')}\n\n`;
   }
 
-  return result || 'No import issues detected';
+  if (result.organize.length > 0) {
+    text += `Import organization available:\n${result.organize.map(title => `- ${title}`).join('\n')}`;
+  }
+
+  return text;
+}
+
+export async function analyzeImports(
+  client: TypeScriptLSPClient,
+  file?: string,
+  showUnused = false,
+  showMissing = false,
+  _includeNodeModules = false
+): Promise<string> {
+  return formatImportAnalysisResult(await analyzeImportsResult(client, file, showUnused, showMissing, _includeNodeModules));
+}
+
+export async function getProjectInfoResult(
+  client: TypeScriptLSPClient,
+  _workspaceRoot?: string
+): Promise<ProjectInfoResult> {
+  // This is typically handled through custom notifications
+  // For now, return basic workspace information
+  const workspaceRoot = client.getWorkspaceRoot();
+  const projectType = await (client as unknown as { workspaceManager?: TypeScriptWorkspaceManager })?.workspaceManager?.detectProjectType?.(workspaceRoot);
+
+  return { workspaceRoot, languageServer: 'typescript-language-server', projectType: projectType || 'typescript' };
+}
+
+export function formatProjectInfoResult(result: ProjectInfoResult): string {
+  return `TypeScript Language Server project information:
+- Workspace: ${result.workspaceRoot}
+- Language Server: ${result.languageServer}
+- Project type: ${result.projectType}
+
+Note: Detailed project configuration requires custom notification handling.`;
 }
 
 export async function getProjectInfo(
@@ -1418,14 +5334,7 @@ export async function getProjectInfo(
 ): Promise<string> {
   // Get TypeScript version and project configuration
   try {
-    // This is typically handled through custom notifications
-    // For now, return basic workspace information
-    return `TypeScript Language Server project information:
-- Workspace: ${client['workspaceRoot']}
-- Language Server: typescript-language-server
-- Project type: ${await (client as unknown as { workspaceManager?: TypeScriptWorkspaceManager })?.workspaceManager?.detectProjectType?.(client['workspaceRoot']) || 'typescript'}
-
-Note: Detailed project configuration requires custom notification handling.`;
+    return formatProjectInfoResult(await getProjectInfoResult(client, _workspaceRoot));
   } catch (_error) {
     return 'Project information not available';
   }
@@ -1433,11 +5342,11 @@ Note: Detailed project configuration requires custom notification handling.`;
 
 
 
-export async function checkTypes(
+export async function checkTypesResult(
   client: TypeScriptLSPClient,
   files?: string[],
   _strict?: boolean
-): Promise<string> {
+): Promise<TypeCheckResult> {
   // Use TypeScript compiler directly for comprehensive type checking
   const args = ['--noEmit', '--pretty'];
   
@@ -1446,9 +5355,16 @@ export async function checkTypes(
   }
 
   try {
-    const result = await new Promise<TypeScriptResult>((resolve) => {
+    const result = await new Promise<TypeScriptResult>((resolve, reject) => {
+      const signal = callScope.getStore()?.signal;
       const proc = spawn('tsc', args, {
-        cwd: client['workspaceRoot'],
+        cwd: client.getWorkspaceRoot(),
+        signal,
+      });
+
+      // Aborting the signal kills tsc
+      proc.on('error', (error) => {
+        reject(signal?.aborted ? cancelledError('tsc') : error);
       });
 
       let stdout = '';
@@ -1467,13 +5383,24 @@ export async function checkTypes(
       });
     });
 
-    if (result.exitCode === 0) {
-      return 'Type checking passed - no errors found';
-    } else {
-      return `Type checking found issues:\n\n${result.stdout || result.stderr}`;
-    }
+    return { passed: result.exitCode === 0, output: result.exitCode === 0 ? '' : result.stdout || result.stderr };
   } catch (error) {
     const tsError = error as TypeScriptToolError;
     throw tsError;
   }
-}
\ No newline at end of file
+}
+
+export function formatTypeCheckResult(result: TypeCheckResult): string {
+  if (result.passed) {
+    return 'Type checking passed - no errors found';
+  }
+  return `Type checking found issues:\n\n${result.output}`;
+}
+
+export async function checkTypes(
+  client: TypeScriptLSPClient,
+  files?: string[],
+  _strict?: boolean
+): Promise<string> {
+  return formatTypeCheckResult(await checkTypesResult(client, files, _strict));
+}
@@ -0,0 +1,145 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { TypeScriptLSPClient } from "../lib/typescript-operations.js";
+
+/**
+ * The typescript-batch tool, called through an MCP client. The language server
+ * is never started: its requests are answered by the tests.
+ */
+
+interface BatchResult {
+  results: { tool: string; isError: boolean; text: string; structuredContent?: { signature?: string } }[];
+}
+
+let mcpClient: Client;
+
+function hover(signature: string) {
+  return { contents: { kind: 'markdown', value: `\`\`\`typescript\n${signature}\n\`\`\`` } };
+}
+
+function hoverAt(line: number, args: Record<string, unknown> = {}) {
+  return { tool: 'get-typescript-hover', arguments: { file: '/project/src/index.ts', line, character: 0, ...args } };
+}
+
+async function runBatch(operations: { tool: string; arguments?: Record<string, unknown> }[]): Promise<BatchResult> {
+  const result = await mcpClient.callTool({
+    name: 'typescript-batch',
+    arguments: { workspaceRoot: '/project', operations },
+  }) as CallToolResult;
+  expect(result.isError).toBeFalsy();
+  return result.structuredContent as unknown as BatchResult;
+}
+
+beforeAll(async () => {
+  // index.ts only starts the stdio server when it is the main module
+  vi.stubGlobal('require', { main: undefined });
+  const { server } = await import('../index.js');
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  mcpClient = new Client({ name: 'typescript-batch-test', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+});
+
+afterAll(async () => {
+  await mcpClient.close();
+  vi.unstubAllGlobals();
+});
+
+beforeEach(() => {
+  vi.spyOn(TypeScriptLSPClient.prototype, 'initialize').mockResolvedValue();
+  vi.spyOn(TypeScriptLSPClient.prototype, 'ensureDocumentOpen').mockResolvedValue();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('typescript-batch', () => {
+  test('should run operations concurrently and return results in order', async () => {
+    const waiting: (() => void)[] = [];
+    vi.spyOn(TypeScriptLSPClient.prototype, 'sendRequest').mockImplementation(async (_method, params) => {
+      // Answer once both requests are in flight, which a sequential run never gets to,
+      // and answer the second first
+      await new Promise<void>((resolve) => {
+        waiting.push(resolve);
+        if (waiting.length === 2) {
+          for (const answer of waiting.reverse()) {
+            answer();
+          }
+        }
+      });
+      const { position } = params as { position: { line: number } };
+      return hover(`const line${position.line + 1}: number`);
+    });
+
+    const { results } = await runBatch([hoverAt(1), hoverAt(2)]);
+    expect(results.map(result => result.isError)).toEqual([false, false]);
+    expect(results.map(result => result.structuredContent?.signature)).toEqual(['const line1: number', 'const line2: number']);
+  });
+
+  test('should not overlap an operation that captures edits with the others', async () => {
+    const events: string[] = [];
+    vi.spyOn(TypeScriptLSPClient.prototype, 'sendRequest').mockImplementation(async (method, params) => {
+      const { position } = params as { position?: { line: number } };
+      const request = position ? `${method} ${position.line + 1}` : method;
+      events.push(`start ${request}`);
+      await new Promise(resolve => setImmediate(resolve));
+      events.push(`end ${request}`);
+      return position ? hover('const value: number') : null;
+    });
+
+    const { results } = await runBatch([
+      hoverAt(1),
+      { tool: 'organize-typescript-imports', arguments: { file: '/project/src/index.ts' } },
+      hoverAt(3),
+    ]);
+    expect(results.map(result => result.isError)).toEqual([false, false, false]);
+    expect(results[1].text).toBe('Imports are already organized');
+    expect(events).toEqual([
+      'start textDocument/hover 1',
+      'end textDocument/hover 1',
+      'start workspace/executeCommand',
+      'end workspace/executeCommand',
+      'start textDocument/hover 3',
+      'end textDocument/hover 3',
+    ]);
+  });
+
+  test('should report invalid arguments for the operation alone', async () => {
+    vi.spyOn(TypeScriptLSPClient.prototype, 'sendRequest').mockResolvedValue(hover('const value: number'));
+
+    const { results } = await runBatch([hoverAt(1, { line: 'first' }), hoverAt(2)]);
+    expect(results[0]).toEqual({
+      tool: 'get-typescript-hover',
+      isError: true,
+      text: 'Invalid arguments: line: Expected number, received string',
+    });
+    expect(results[1]).toMatchObject({ isError: false, structuredContent: { signature: 'const value: number' } });
+  });
+
+  test('should report a failed operation without failing the others', async () => {
+    vi.spyOn(TypeScriptLSPClient.prototype, 'sendRequest').mockImplementation(async (_method, params) => {
+      const { position } = params as { position: { line: number } };
+      if (position.line === 0) {
+        throw new Error('Request timeout: textDocument/hover took longer than 10000ms');
+      }
+      return hover('const value: number');
+    });
+
+    const { results } = await runBatch([hoverAt(1), hoverAt(2)]);
+    expect(results[0].isError).toBe(true);
+    expect(results[0].text).toContain('Request timeout: textDocument/hover took longer than 10000ms');
+    expect(results[1]).toMatchObject({ isError: false, structuredContent: { signature: 'const value: number' } });
+  });
+
+  test('should run operations in their own workspace root when they name one', async () => {
+    vi.spyOn(TypeScriptLSPClient.prototype, 'sendRequest').mockImplementation(async function (this: TypeScriptLSPClient) {
+      return hover(`// ${this.getWorkspaceRoot()}`);
+    });
+
+    const { results } = await runBatch([hoverAt(1), hoverAt(2, { workspaceRoot: '/other-project' })]);
+    expect(results.map(result => result.structuredContent?.signature)).toEqual(['// /project', '// /other-project']);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, test, expect, beforeAll, afterAll } from "vitest";
+import { describe, test, expect, beforeAll, afterAll, vi } from "vitest";
 import { 
   TypeScriptLSPClient,
   TypeScriptWorkspaceManager,
@@ -6,15 +6,33 @@ import {
   findSymbol,
   gotoDefinition,
   gotoSourceDefinition,
+  gotoSourceDefinitionResult,
   gotoTypeDefinition,
   findReferences,
+  findReferencesResult,
+  formatReferencesResult,
   findImplementations,
+  getDocumentHighlights,
+  resolveSymbolLocator,
+  getDiagnostics,
+  getDiagnosticsResult,
+  getHover,
   getSignatureHelp,
+  getCompletionInfo,
   organizeImports,
   applyCodeFixes,
+  renameSymbol,
+  moveFile,
+  formatFile,
+  getInlayHints,
+  listRefactorings,
+  applyRefactoring,
+  getRefactoringCatalog,
   listSymbols,
+  listSymbolsResult,
   getCallHierarchy,
   getTypeHierarchy,
+  getTypeHierarchyResult,
   analyzeImports,
   getProjectInfo,
   checkTypes,
@@ -23,9 +41,16 @@ import {
   formatCompletionItemKind,
   formatLocation,
   formatRange,
+  formatDiagnostic,
+  applyTextEdits,
+  createUnifiedDiff,
+  withCancellation,
+  withRequestTimeout,
+  timeoutsFromEnv,
+  DEFAULT_TIMEOUTS,
 } from "../lib/typescript-operations.js";
 import { join } from "node:path";
-import { mkdir, writeFile, rm } from "node:fs/promises";
+import { mkdir, writeFile, rm, readdir, readFile } from "node:fs/promises";
 
 // Test configuration
 const TEST_TIMEOUT = 15000; // 15 seconds for LSP operations
@@ -407,6 +432,262 @@ describe('TypeScript Operations', () => {
         };
         expect(formatRange(range)).toBe('10:5-12:16');
       });
+
+      test('should format diagnostics correctly', () => {
+        const diagnostic = {
+          range: {
+            start: { line: 10, character: 2 },
+            end: { line: 10, character: 5 }
+          },
+          severity: 1,
+          code: 2322,
+          message: "Type 'string' is not assignable to type 'number'.",
+          relatedInformation: [{
+            location: {
+              uri: 'file:///path/to/file.ts',
+              range: {
+                start: { line: 5, character: 2 },
+                end: { line: 5, character: 5 }
+              }
+            },
+            message: "The expected type comes from property 'age'"
+          }]
+        };
+        expect(formatDiagnostic(diagnostic)).toBe(
+          "Error TS2322 at 11:3-11:6: Type 'string' is not assignable to type 'number'.\n" +
+          "  Related: /path/to/file.ts:6:3 - The expected type comes from property 'age'"
+        );
+      });
+    });
+
+    describe('Text Edits', () => {
+      test('should apply text edits from the end of the document', () => {
+        const content = 'const a = 1;\nconst b = a + a;\n';
+        const edits = [
+          { range: { start: { line: 0, character: 6 }, end: { line: 0, character: 7 } }, newText: 'value' },
+          { range: { start: { line: 1, character: 10 }, end: { line: 1, character: 11 } }, newText: 'value' },
+          { range: { start: { line: 1, character: 14 }, end: { line: 1, character: 15 } }, newText: 'value' },
+        ];
+        expect(applyTextEdits(content, edits)).toBe('const value = 1;\nconst b = value + value;\n');
+      });
+
+      test('should apply insertions at the same position in order', () => {
+        const edits = [
+          { range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, newText: 'import a;\n' },
+          { range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, newText: 'import b;\n' },
+        ];
+        expect(applyTextEdits('code();\n', edits)).toBe('import a;\nimport b;\ncode();\n');
+      });
+
+      test('should create a unified diff with context', () => {
+        const diff = createUnifiedDiff('/a.ts', '/a.ts', 'a\nb\nc\nd\n', 'a\nB\nc\nd\n');
+        expect(diff).toBe('--- /a.ts\n+++ /a.ts\n@@ -1,4 +1,4 @@\n a\n-b\n+B\n c\n d');
+      });
+
+      test('should diff created files against /dev/null', () => {
+        expect(createUnifiedDiff('/a.ts', '/a.ts', null, 'x\n')).toBe('--- /dev/null\n+++ /a.ts\n@@ -0,0 +1,1 @@\n+x');
+        expect(createUnifiedDiff('/a.ts', '/a.ts', 'same\n', 'same\n')).toBe('');
+      });
+
+      test('should apply edits with percent-encoded URIs', async () => {
+        const directory = join(process.cwd(), 'typescript', 'my project #1 ü');
+        // Encoded the way the language server encodes file URIs
+        const uri = (path: string) => `file://${path.split('/').map(encodeURIComponent).join('/')}`;
+        await mkdir(directory, { recursive: true });
+        await writeFile(join(directory, 'a.ts'), 'const a = 1;\n');
+
+        try {
+          const client = new TypeScriptLSPClient(directory);
+          const result = await client.applyWorkspaceEdit({
+            documentChanges: [
+              {
+                textDocument: { uri: uri(join(directory, 'a.ts')), version: null },
+                edits: [{ range: { start: { line: 0, character: 6 }, end: { line: 0, character: 7 } }, newText: 'b' }],
+              },
+              { kind: 'rename', oldUri: uri(join(directory, 'a.ts')), newUri: uri(join(directory, 'b.ts')) },
+            ],
+          });
+
+          expect(result.applied).toBe(true);
+          expect(await readdir(directory)).toEqual(['b.ts']);
+          expect(await readFile(join(directory, 'b.ts'), 'utf-8')).toBe('const b = 1;\n');
+        } finally {
+          await rm(directory, { recursive: true, force: true });
+        }
+      });
+    });
+
+    describe('Message Framing', () => {
+      test('should split messages by byte length and log malformed ones', () => {
+        const client = new TypeScriptLSPClient(testProjectPath);
+        const received: string[] = [];
+        client.on('window/logMessage', (params: { message: string }) => received.push(params.message));
+        const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        const frame = (body: string, headers = '') => {
+          const bytes = Buffer.from(body);
+          return Buffer.concat([Buffer.from(`${headers}Content-Length: ${bytes.length}\r\n\r\n`), bytes]);
+        };
+        const logMessage = (message: string) => JSON.stringify({ jsonrpc: '2.0', method: 'window/logMessage', params: { type: 3, message } });
+        const stream = Buffer.concat([
+          frame(logMessage('こんにちは 👋')),
+          frame(logMessage('ok'), 'Content-Type: application/vscode-jsonrpc; charset=utf8\r\n'),
+          frame('{"jsonrpc": "2.0", "method": '),
+          Buffer.from('X-Unknown: 1\r\n\r\n'),
+          frame(logMessage('日本語の文字列')),
+        ]);
+
+        try {
+          // Feed the output in chunks that split multi-byte characters
+          for (let offset = 0; offset < stream.length; offset += 7) {
+            client['buffer'] = Buffer.concat([client['buffer'], stream.subarray(offset, offset + 7)]);
+            client['processBuffer']();
+          }
+
+          expect(received).toEqual(['こんにちは 👋', 'ok', '日本語の文字列']);
+          expect(logged.mock.calls.map(call => String(call[0]))).toEqual([
+            expect.stringContaining('Dropped malformed message'),
+            expect.stringContaining('Dropped message header without a valid Content-Length'),
+          ]);
+        } finally {
+          logged.mockRestore();
+        }
+      });
+    });
+
+    describe('Server Requests', () => {
+      test('should answer server requests and reject unknown methods', async () => {
+        const client = new TypeScriptLSPClient(testProjectPath);
+        const sent: unknown[] = [];
+        client['sendMessage'] = (message) => {
+          sent.push(message);
+        };
+        const receive = client['handleMessage'].bind(client);
+
+        receive({ jsonrpc: '2.0', id: 1, method: 'window/workDoneProgress/create', params: { token: 'load' } });
+        const restore = client.setRequestHandler('workspace/configuration', (params: { items: { section: string }[] }) =>
+          params.items.map(item => ({ section: item.section }))
+        );
+        receive({ jsonrpc: '2.0', id: 2, method: 'workspace/configuration', params: { items: [{ section: 'typescript' }] } });
+        restore();
+        receive({ jsonrpc: '2.0', id: 3, method: 'workspace/configuration', params: { items: [{ section: 'typescript' }] } });
+        receive({ jsonrpc: '2.0', id: 4, method: 'custom/unknownRequest', params: {} });
+        await new Promise(resolve => setImmediate(resolve));
+
+        // Responses are sent as each handler finishes, so their order is not fixed
+        expect(sent).toHaveLength(4);
+        expect(sent).toEqual(expect.arrayContaining([
+          { jsonrpc: '2.0', id: 1, result: null },
+          { jsonrpc: '2.0', id: 2, result: [{ section: 'typescript' }] },
+          { jsonrpc: '2.0', id: 3, result: [null] },
+          { jsonrpc: '2.0', id: 4, error: { code: -32601, message: 'Unhandled method custom/unknownRequest' } },
+        ]));
+      });
+
+      test('should run overlapping edit captures one at a time', async () => {
+        const client = new TypeScriptLSPClient(testProjectPath);
+        client['sendMessage'] = () => {};
+        const receive = client['handleMessage'].bind(client);
+        const applyEdit = client['requestHandlers'].get('workspace/applyEdit');
+        const editFor = (uri: string) => ({ changes: { [uri]: [] } });
+
+        // The second capture is requested while the first runs, and its edit arrives after the first is done
+        let finishFirst = () => {};
+        let startSecond = () => {};
+        const secondStarted = new Promise<void>(resolve => { startSecond = resolve; });
+        const first = client.captureServerEdits(async () => {
+          receive({ jsonrpc: '2.0', id: 1, method: 'workspace/applyEdit', params: { edit: editFor('file:///first.ts') } });
+          await new Promise<void>(resolve => { finishFirst = resolve; });
+        });
+        const second = client.captureServerEdits(async () => {
+          await secondStarted;
+          receive({ jsonrpc: '2.0', id: 2, method: 'workspace/applyEdit', params: { edit: editFor('file:///second.ts') } });
+        });
+        await new Promise(resolve => setImmediate(resolve));
+        finishFirst();
+        expect((await first).edits).toEqual([editFor('file:///first.ts')]);
+        startSecond();
+
+        expect((await second).edits).toEqual([editFor('file:///second.ts')]);
+        expect(client['requestHandlers'].get('workspace/applyEdit')).toBe(applyEdit);
+      });
+    });
+
+    describe('Diagnostics', () => {
+      test('should match published diagnostics to a relative document path', async () => {
+        const client = new TypeScriptLSPClient(testProjectPath);
+        const relativePath = join('typescript', 'test-project', '.', 'src', '..', 'src', 'index.ts');
+
+        const diagnostics = client.waitForDiagnostics(relativePath, 5000, 0);
+        client.emit('textDocument/publishDiagnostics', { uri: `file://${testFiles.index}`, diagnostics: [] });
+        const settled = await Promise.race([diagnostics.then(() => 'settled'), new Promise(resolve => setTimeout(resolve, 1000, 'timed out'))]);
+        expect(settled).toBe('settled');
+      });
+    });
+
+    describe('Project Readiness', () => {
+      test('should track project loading progress and wait for it to end', async () => {
+        const client = new TypeScriptLSPClient(testProjectPath, { ...DEFAULT_TIMEOUTS, projectLoad: 50 });
+        client['sendMessage'] = () => {};
+        client['initialized'] = true;
+        client['projectsOpened'] = Promise.resolve();
+        const receive = client['handleMessage'].bind(client);
+
+        receive({ jsonrpc: '2.0', id: 1, method: 'window/workDoneProgress/create', params: { token: 'load' } });
+        receive({ jsonrpc: '2.0', method: '$/progress', params: { token: 'load', value: { kind: 'begin', title: 'Loading project' } } });
+        receive({ jsonrpc: '2.0', method: '$/progress', params: { token: 'load', value: { kind: 'report', message: '340/1200 files' } } });
+        expect(client.getReadiness()).toBe('not ready: Loading project: 340/1200 files (0s so far)');
+        await expect(client.waitUntilReady()).rejects.toThrow('Request timeout: waiting for the project to load took longer than 50ms');
+
+        const ready = client.waitUntilReady();
+        receive({ jsonrpc: '2.0', method: '$/progress', params: { token: 'load', value: { kind: 'end' } } });
+        await ready;
+        expect(client.getReadiness()).toBe('ready, no project loaded yet');
+      });
+    });
+
+    describe('Request Errors', () => {
+      test('should tell unsupported requests apart from timeouts and cancellations', async () => {
+        const client = new TypeScriptLSPClient(testProjectPath);
+        vi.spyOn(client, 'ensureDocumentOpen').mockResolvedValue();
+        const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 4 } };
+        const answers: { [method: string]: object } = {
+          'workspace/executeCommand': { error: { code: -32601, message: 'Unhandled method workspace/executeCommand' } },
+          'textDocument/prepareTypeHierarchy': { result: [{ name: 'User', kind: 11, uri: `file://${testFiles.userTypes}`, range, selectionRange: range }] },
+          'typeHierarchy/supertypes': { error: { code: -32601, message: 'Unhandled method typeHierarchy/supertypes' } },
+        };
+        // Requests without an answer are left to time out
+        client['sendMessage'] = (message) => {
+          const answer = message.method ? answers[message.method] : undefined;
+          if (message.id !== undefined && answer) {
+            queueMicrotask(() => client['handleMessage']({ jsonrpc: '2.0', id: message.id, ...answer }));
+          }
+        };
+
+        await expect(gotoSourceDefinitionResult(client, testFiles.index, 1, 0)).rejects.toThrow('Source definition not available');
+        const aborted = AbortSignal.abort();
+        await expect(withCancellation(aborted, () => gotoSourceDefinitionResult(client, testFiles.index, 1, 0)))
+          .rejects.toThrow('Request cancelled: workspace/executeCommand');
+
+        expect(await getTypeHierarchyResult(client, testFiles.userTypes, 1, 17, 'supertypes')).toMatchObject({ unavailable: ['supertypes'] });
+        await expect(withRequestTimeout(50, () => getTypeHierarchyResult(client, testFiles.userTypes, 1, 17, 'subtypes')))
+          .rejects.toThrow('Request timeout: typeHierarchy/subtypes took longer than 50ms');
+      });
+    });
+
+    describe('Timeouts', () => {
+      test('should read timeout budgets from the environment', () => {
+        const timeouts = timeoutsFromEnv({
+          TYPESCRIPT_LSP_PROJECT_LOAD_TIMEOUT: '90000',
+          TYPESCRIPT_LSP_REQUEST_TIMEOUT: 'soon',
+          TYPESCRIPT_LSP_METHOD_TIMEOUTS: 'textDocument/references=30000, workspace/symbol = 45000,callHierarchy=-1',
+        });
+        expect(timeouts).toEqual({
+          ...DEFAULT_TIMEOUTS,
+          projectLoad: 90000,
+          methods: { 'textDocument/references': 30000, 'workspace/symbol': 45000 },
+        });
+      });
     });
 
     describe('TypeScript Language Server Availability', () => {
@@ -481,14 +762,152 @@ describe('TypeScript Operations', () => {
         expect(typeof result).toBe('string');
       });
 
+      skipIfLSPUnavailable('should group references by file with kinds and context', async () => {
+        const fs = await import('node:fs/promises');
+        const lines = (await fs.readFile(testFiles.userTypes, 'utf-8')).split('\n');
+        const line = lines.findIndex(text => text.includes('export interface User {'));
+        const character = lines[line].indexOf('User');
+
+        const result = await findReferences(testClient, testFiles.userTypes, line + 1, character, true, 1);
+        expect(result).toContain("references to 'User'");
+        expect(result).toContain(`${testFiles.userService} (`);
+        expect(result).toContain(`${line + 1}:${character + 1} [declaration] in User`);
+        expect(result).toContain('[import]');
+        expect(result).toMatch(/\[type\] in UserService\.\w+/);
+        expect(result).toContain(`> ${line + 1} | export interface User {`);
+      });
+
+      skipIfLSPUnavailable('should return references as structured data the text is rendered from', async () => {
+        const position = await resolveSymbolLocator(testClient, 'src/types/user.ts#User');
+
+        const result = await findReferencesResult(testClient, position.file, position.line, position.character, true);
+        expect(result.symbolName).toBe('User');
+        expect(result.page.total).toBe(result.files.reduce((sum, file) => sum + file.count, 0));
+        const declaration = result.files.flatMap(file => file.references).find(reference => reference.kind === 'declaration');
+        expect(declaration?.location.uri).toBe(`file://${testFiles.userTypes}`);
+        expect(declaration?.location.range.start).toEqual({ line: position.line - 1, character: position.character });
+
+        const text = await findReferences(testClient, position.file, position.line, position.character, true);
+        expect(text).toBe(formatReferencesResult(result));
+      });
+
+      skipIfLSPUnavailable('should page references and filter them by path', async () => {
+        const position = await resolveSymbolLocator(testClient, 'src/types/user.ts#User');
+        const all = await findReferencesResult(testClient, position.file, position.line, position.character, true);
+        expect(all.page.total).toBeGreaterThan(2);
+
+        const first = await findReferencesResult(testClient, position.file, position.line, position.character, true, 0, { limit: 2 });
+        const second = await findReferencesResult(testClient, position.file, position.line, position.character, true, 0, { limit: 2, offset: 2 });
+        const locations = (result: typeof all) => result.files.flatMap(file => file.references.map(reference => reference.location));
+        expect(first.page).toMatchObject({ total: all.page.total, returned: 2, nextOffset: 2 });
+        expect([...locations(first), ...locations(second)]).toEqual(locations(all).slice(0, 4));
+        expect(first.counts).toEqual(all.counts);
+
+        const text = await findReferences(testClient, position.file, position.line, position.character, true, 0, { limit: 2 });
+        expect(text).toContain(`(Showing 1-2 of ${all.page.total} references; pass offset 2 for more)`);
+
+        const services = await findReferencesResult(testClient, position.file, position.line, position.character, true, 0, { include: ['src/services'] });
+        expect(services.files.map(file => file.file)).toEqual([testFiles.userService]);
+        const withoutServices = await findReferencesResult(testClient, position.file, position.line, position.character, true, 0, { exclude: ['user-service.ts'] });
+        expect(withoutServices.files.map(file => file.file)).not.toContain(testFiles.userService);
+      });
+
+      skipIfLSPUnavailable('should resolve symbol locators to positions', async () => {
+        const position = await resolveSymbolLocator(testClient, 'src/services/user-service.ts#UserService.findUserById');
+        expect(position.file).toBe(testFiles.userService);
+        const fs = await import('node:fs/promises');
+        const lines = (await fs.readFile(testFiles.userService, 'utf-8')).split('\n');
+        expect(lines[position.line - 1].slice(position.character)).toMatch(/^findUserById\(/);
+
+        const workspacePosition = await resolveSymbolLocator(testClient, '#UserService.findUserById');
+        expect(workspacePosition).toEqual(position);
+
+        await expect(resolveSymbolLocator(testClient, '#user', testFiles.userService)).rejects.toThrow(/ambiguous/);
+      });
+
       skipIfLSPUnavailable('should find implementations', async () => {
         const result = await findImplementations(testClient, testFiles.userTypes, 8, 10);
         expect(result).toBeTruthy();
         expect(typeof result).toBe('string');
       });
+
+      skipIfLSPUnavailable('should tag written and read occurrences in highlights', async () => {
+        const fs = await import('node:fs/promises');
+        const lines = (await fs.readFile(testFiles.userService, 'utf-8')).split('\n');
+        const line = lines.findIndex(text => text.includes('const user = this.users.find(u => u.id === userId);'));
+        const character = lines[line].indexOf('user');
+
+        const result = await getDocumentHighlights(testClient, testFiles.userService, line + 1, character);
+        expect(result).toContain("occurrences of 'user'");
+        expect(result).toContain(`${line + 1}:${character + 1} [write] const user = this.users.find`);
+        expect(result).toContain('[read] if (user) {');
+      });
     });
 
     describe('Code Analysis Tools', () => {
+      skipIfLSPUnavailable('should get hover information', async () => {
+        const result = await getHover(testClient, testFiles.userService, 11, 10);
+        expect(result).toContain('createUser');
+        expect(result).toContain('Kind: method');
+        expect(result).toContain('userData - User data for creation');
+        expect(result).toContain('Returns: Promise resolving to created user');
+      });
+
+      skipIfLSPUnavailable('should see edits made on disk after a document was opened', async () => {
+        const file = join(testProjectPath, 'src', 'sync-check.ts');
+        await writeFile(file, 'export const value = 1;\n');
+        try {
+          expect(await getHover(testClient, file, 1, 14)).toContain('const value: 1');
+
+          await writeFile(file, "// edited\nexport const value = 'changed';\n");
+          expect(await getHover(testClient, file, 2, 14)).toContain('const value: "changed"');
+        } finally {
+          await rm(file, { force: true });
+          await testClient.syncOpenDocuments();
+        }
+        expect(testClient.isDocumentOpen(file)).toBe(false);
+      });
+
+      skipIfLSPUnavailable('should query unsaved content and restore the disk state', async () => {
+        const unsaved = "import { User } from './types/user.js';\nexport const broken: User = 42;\n";
+        const overridden = await testClient.withContentOverride(testFiles.errors, unsaved, () =>
+          getDiagnostics(testClient, testFiles.errors)
+        );
+        expect(overridden).toContain('Found 1 diagnostic');
+        expect(overridden).toContain("Type 'number' is not assignable to type 'User'");
+
+        const restored = await getDiagnostics(testClient, testFiles.errors);
+        expect(restored).toContain("Type 'string' is not assignable to type 'number'");
+      });
+
+      skipIfLSPUnavailable('should get diagnostics', async () => {
+        const result = await getDiagnostics(testClient, testFiles.errors);
+        expect(result).toContain('TS2322');
+        expect(result).toContain('Error');
+      });
+
+      skipIfLSPUnavailable('should return diagnostics with codes as structured data', async () => {
+        const result = await getDiagnosticsResult(testClient, testFiles.errors, 'error');
+        expect(result.page.total).toBe(result.diagnostics.length);
+        expect(result.totals.Error).toBe(result.page.total);
+        const mismatch = result.diagnostics.find(diagnostic => diagnostic.code === 'TS2322');
+        expect(mismatch?.file).toBe(testFiles.errors);
+        expect(mismatch?.severity).toBe('Error');
+        expect(mismatch?.range.start.line).toBeGreaterThanOrEqual(0);
+      });
+
+      skipIfLSPUnavailable('should summarize workspace diagnostics', async () => {
+        const result = await getDiagnostics(testClient, undefined, 'error', { limit: 5 });
+        expect(result).toContain('Workspace diagnostics');
+        expect(result).toContain('TS2322 x');
+        expect(result).toContain(testFiles.errors);
+      });
+
+      skipIfLSPUnavailable('should filter diagnostics by severity', async () => {
+        const result = await getDiagnostics(testClient, testFiles.errors, 'error');
+        expect(result).not.toContain('Hint');
+        expect(result).not.toContain('Warning');
+      });
 
       skipIfLSPUnavailable('should get signature help', async () => {
         const result = await getSignatureHelp(testClient, testFiles.userService, 15, 25);
@@ -496,6 +915,12 @@ describe('TypeScript Operations', () => {
         expect(typeof result).toBe('string');
       });
 
+      skipIfLSPUnavailable('should get completions filtered by prefix', async () => {
+        const result = await getCompletionInfo(testClient, testFiles.userService, 25, 15, 'pu');
+        expect(result).toContain('push (Method)');
+        expect(result).not.toContain('filter (Method)');
+      });
+
       skipIfLSPUnavailable('should check types', async () => {
         const result = await checkTypes(testClient, [testFiles.errors]);
         expect(result).toBeTruthy();
@@ -510,12 +935,116 @@ describe('TypeScript Operations', () => {
         expect(typeof result).toBe('string');
       });
 
+      skipIfLSPUnavailable('should preview organized imports as a diff', async () => {
+        const result = await organizeImports(testClient, testFiles.errors, false, true);
+        expect(result).toContain('Dry run');
+        expect(result).toContain(`--- ${testFiles.errors}`);
+        expect(result).toContain("-import { User } from './types/user.js';");
+
+        const fs = await import('node:fs/promises');
+        const content = await fs.readFile(testFiles.errors, 'utf-8');
+        expect(content).toContain("import { User } from './types/user.js';");
+      });
+
+      skipIfLSPUnavailable('should preview a rename without writing files', async () => {
+        const result = await renameSymbol(testClient, testFiles.userTypes, 1, 17, 'Account');
+        expect(result).toContain("Rename 'User' to 'Account'");
+        expect(result).toContain(testFiles.userService);
+        expect(result).toContain('Dry run');
+
+        const fs = await import('node:fs/promises');
+        const content = await fs.readFile(testFiles.userTypes, 'utf-8');
+        expect(content).toContain('export interface User {');
+      });
+
+      skipIfLSPUnavailable('should list refactorings for a selection', async () => {
+        const result = await listRefactorings(testClient, testFiles.helpers, 46, 9, 46, 17);
+        expect(result).toContain('Available refactorings at 46:10-46:18');
+        expect(result).toContain('Extract to constant in enclosing scope');
+      });
+
+      skipIfLSPUnavailable('should catalog the refactorings available for each symbol', async () => {
+        const catalog = await getRefactoringCatalog(testClient, testFiles.helpers);
+        expect(catalog.map(entry => entry.symbol)).toContain('formatUserName');
+        expect(catalog.find(entry => entry.symbol === 'formatUserName')).toEqual({
+          symbol: 'formatUserName',
+          range: '8:1-10:2',
+          refactorings: expect.arrayContaining([{ title: 'Move to a new file', kind: 'refactor.move.newFile' }]),
+        });
+      });
+
+      skipIfLSPUnavailable('should preview a refactoring with its rename location', async () => {
+        const result = await applyRefactoring(testClient, testFiles.helpers, 46, 9, 46, 17, 'Extract to constant in enclosing scope', true);
+        expect(result).toContain('Dry run');
+        expect(result).toContain(`Rename location: ${testFiles.helpers}:`);
+        expect(result).toContain('-  return data * 2;');
+
+        const fs = await import('node:fs/promises');
+        const content = await fs.readFile(testFiles.helpers, 'utf-8');
+        expect(content).toContain('  return data * 2;');
+      });
+
+      skipIfLSPUnavailable('should preview moving a file with import updates', async () => {
+        const destination = join(testProjectPath, 'src', 'shared', 'helpers.ts');
+        const result = await moveFile(testClient, testFiles.helpers, destination, true);
+        expect(result).toContain(`Move file ${testFiles.helpers} to ${destination}`);
+        expect(result).toContain(`rename from ${testFiles.helpers}`);
+        expect(result).toContain("+} from './shared/helpers.js';");
+
+        const fs = await import('node:fs/promises');
+        await expect(fs.access(testFiles.helpers)).resolves.toBeUndefined();
+        await expect(fs.access(destination)).rejects.toThrow();
+      });
+
+      skipIfLSPUnavailable('should preview formatting a range with explicit options', async () => {
+        const result = await formatFile(testClient, testFiles.helpers, { indentSize: 4 }, 46, 46, true);
+        expect(result).toContain('Dry run');
+        expect(result).toContain('-  return data * 2;');
+        expect(result).toContain('+    return data * 2;');
+
+        const fs = await import('node:fs/promises');
+        const content = await fs.readFile(testFiles.helpers, 'utf-8');
+        expect(content).toContain('  return data * 2;');
+      });
+
+      skipIfLSPUnavailable('should preview rewriting quotes to the given quote style', async () => {
+        const result = await formatFile(testClient, testFiles.helpers, { quoteStyle: 'double' }, undefined, undefined, true);
+        expect(result).toContain("-import { User, UserRole } from '../types/user.js';");
+        expect(result).toContain('+import { User, UserRole } from "../types/user.js";');
+        expect(result).toContain('  return `${user.name} (${user.email})`;');
+
+        const content = 'const a = "it\'s";\nconst b = "say \\"hi\\"";\n';
+        const requoted = await testClient.withContentOverride(testFiles.helpers, content, () =>
+          formatFile(testClient, testFiles.helpers, { quoteStyle: 'single' }, undefined, undefined, true)
+        );
+        expect(requoted).not.toContain('-const a');
+        expect(requoted).toContain('+const b = \'say "hi"\';');
+      });
+
+      skipIfLSPUnavailable('should render inlay hints inline', async () => {
+        const listed = await getInlayHints(testClient, testFiles.userService);
+        expect(listed).toContain('parameter predicate');
+
+        const result = await getInlayHints(testClient, testFiles.userService, undefined, undefined, true);
+        expect(result).toContain('inlay hints inlined');
+        expect(result).toContain('this.users.find(predicate: u');
+      });
+
       skipIfLSPUnavailable('should get code fixes', async () => {
         const result = await applyCodeFixes(testClient, testFiles.errors, 10, 5);
         expect(result).toBeTruthy();
         expect(typeof result).toBe('string');
       });
 
+      skipIfLSPUnavailable('should preview a quick fix for a diagnostic', async () => {
+        const listed = await applyCodeFixes(testClient, testFiles.errors, 19, 6);
+        expect(listed).toContain("Remove unused declaration for: 'unusedVariable'");
+
+        const result = await applyCodeFixes(testClient, testFiles.errors, 19, 6, undefined, 'Remove unused declaration', true);
+        expect(result).toContain('Dry run');
+        expect(result).toContain("-const unusedVariable = 'test';");
+      });
+
     });
 
     describe('Workspace Understanding Tools', () => {
@@ -525,6 +1054,14 @@ describe('TypeScript Operations', () => {
         expect(typeof result).toBe('string');
       });
 
+      skipIfLSPUnavailable('should list document symbols as a tree', async () => {
+        const result = await listSymbolsResult(testClient, testFiles.userService, undefined, true);
+        const service = result.symbols.find(symbol => symbol.name === 'UserService');
+        expect(service?.kind).toBe('Class');
+        expect(service?.location.uri).toBe(`file://${testFiles.userService}`);
+        expect(service?.children?.map(child => child.name)).toContain('findUserById');
+      });
+
       skipIfLSPUnavailable('should list workspace symbols', async () => {
         const result = await listSymbols(testClient);
         expect(result).toBeTruthy();
@@ -572,6 +1109,43 @@ describe('TypeScript Operations', () => {
       expect(result).toBeTruthy();
       expect(typeof result).toBe('string');
     });
+
+    skipIfLSPUnavailable('should cancel in-flight requests when the signal aborts', async () => {
+      const controller = new AbortController();
+      const notifications: { method: string; params: unknown }[] = [];
+      const sendMessage = testClient['sendMessage'].bind(testClient);
+      const sendNotification = testClient.sendNotification.bind(testClient);
+
+      // Abort as soon as the request has been sent to the server
+      testClient['sendMessage'] = (message) => {
+        sendMessage(message);
+        if (message.method === 'workspace/symbol') {
+          controller.abort();
+        }
+      };
+      testClient.sendNotification = async (method, params) => {
+        notifications.push({ method, params });
+        await sendNotification(method, params);
+      };
+
+      try {
+        const request = withCancellation(controller.signal, () => testClient.sendRequest('workspace/symbol', { query: 'User' }));
+        await expect(request).rejects.toThrow('Request cancelled: workspace/symbol');
+        expect(notifications.map(notification => notification.method)).toContain('$/cancelRequest');
+
+        // Nothing is sent once the signal has aborted
+        await expect(withCancellation(controller.signal, () => getDiagnosticsResult(testClient, testFiles.index)))
+          .rejects.toThrow('Request cancelled');
+      } finally {
+        testClient['sendMessage'] = sendMessage;
+        testClient.sendNotification = sendNotification;
+      }
+    });
+
+    skipIfLSPUnavailable('should name the budget a timed out request exceeded', async () => {
+      const request = withRequestTimeout(1, () => testClient.sendRequest('workspace/symbol', { query: 'User' }));
+      await expect(request).rejects.toThrow('Request timeout: workspace/symbol took longer than 1ms, the timeoutMs of this call');
+    });
   });
 
   describe('Performance Tests', () => {
@@ -856,4 +1430,41 @@ describe('Workspace Manager', () => {
       await manager.closeAll();
     }, TEST_TIMEOUT);
   });
+
+  describe('Crash Recovery', () => {
+    test('should restart a crashed server and reopen its documents', async () => {
+      if (!lspAvailable) {
+        expect(true).toBe(true);
+        return;
+      }
+
+      const manager = new TypeScriptWorkspaceManager();
+      const client = await manager.getOrCreateWorkspace(testProjectPath);
+      await client.ensureDocumentOpen(testFiles.userTypes);
+
+      // Crash the server while a request is in flight
+      const inFlight = client.sendRequest('workspace/symbol', { query: 'User' });
+      while (client['pendingRequests'].size === 0) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      client['process']?.kill('SIGKILL');
+      await expect(inFlight).rejects.toThrow('TypeScript Language Server restarted');
+      expect(client.getCrash()).toMatchObject({ count: 1, reason: 'signal SIGKILL' });
+
+      // The next request for the workspace gets the same client, running again
+      const restarted = await manager.getOrCreateWorkspace(testProjectPath);
+      expect(restarted).toBe(client);
+      expect(client.getCrash()).toBeUndefined();
+      expect(client.isDocumentOpen(testFiles.userTypes)).toBe(true);
+
+      // Crashing again straight away backs off instead of restarting
+      client['process']?.kill('SIGKILL');
+      while (!client.getCrash()) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      await expect(manager.getOrCreateWorkspace(testProjectPath)).rejects.toThrow('crashed 2 times in a row');
+
+      await manager.closeAll();
+    }, TEST_TIMEOUT);
+  });
 });
\ No newline at end of file